@@ -0,0 +1,95 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Loader2, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AccountDetailView } from "@/components/account-detail-view";
+import type { AccountDetail } from "@/lib/account-detail";
+
+interface AccountPageProps {
+  params: Promise<{ id: string; accountId: string }>;
+}
+
+// Route params may arrive percent-encoded
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export default function AccountPage({ params }: AccountPageProps) {
+  const { id, accountId } = use(params);
+  const [detail, setDetail] = useState<AccountDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const analysisId = decodeParam(id);
+  const account = decodeParam(accountId);
+  const accountHref = (otherAccountId: string) =>
+    `/analyses/${encodeURIComponent(analysisId)}/accounts/${encodeURIComponent(otherAccountId)}`;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setDetail(null);
+    setError(null);
+    fetch(`/api/analyses/${encodeURIComponent(analysisId)}/accounts/${encodeURIComponent(account)}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error ?? "Failed to load the account");
+        setDetail(body as AccountDetail);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : "Failed to load the account");
+      });
+    return () => controller.abort();
+  }, [analysisId, account]);
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-4 py-4 lg:px-8">
+          <div className="flex items-center gap-3">
+            <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary/10">
+              <Shield className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-foreground tracking-tight">ForensicGraph</h1>
+              <p className="text-xs text-muted-foreground">Account Detail</p>
+            </div>
+          </div>
+          <Button
+            asChild
+            variant="outline"
+            size="sm"
+            className="gap-2 border-border text-muted-foreground hover:text-foreground"
+          >
+            <Link href={`/?analysis=${encodeURIComponent(analysisId)}`}>
+              <ArrowLeft className="h-4 w-4" />
+              Back to Analysis
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-7xl px-4 py-8 lg:px-8">
+        {error ? (
+          <div className="flex items-center gap-2 rounded-md bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        ) : detail ? (
+          <AccountDetailView detail={detail} accountHref={accountHref} />
+        ) : (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
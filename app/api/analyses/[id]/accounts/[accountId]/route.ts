@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildAccountDetail } from "@/lib/account-detail";
+import { getJobResult } from "@/lib/jobs";
+
+interface AccountRouteContext {
+  params: Promise<{ id: string; accountId: string }>;
+}
+
+// Everything about one account in a finished analysis: node stats,
+// transactions in and out, counterparties by volume, ring memberships
+// and score breakdown. The analysis ID is the ID of its job.
+export async function GET(_request: NextRequest, { params }: AccountRouteContext) {
+  const { id, accountId } = await params;
+  const found = getJobResult(id);
+  if (!found) return NextResponse.json({ error: "Analysis not found" }, { status: 404 });
+  if (!found.result) {
+    return NextResponse.json({ error: `Analysis is ${found.job.status}` }, { status: 409 });
+  }
+
+  const detail = buildAccountDetail(found.result, accountId);
+  if (!detail) return NextResponse.json({ error: "Account not found in this analysis" }, { status: 404 });
+  return NextResponse.json(detail);
+}
@@ -1,71 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
-import { analyzeTransactions, type Transaction } from "@/lib/graph-engine";
+import { readAnalyzeInput, runAnalysis, type AnalyzeErrorOutcome, type AnalyzeInput } from "@/lib/analysis-runner";
+import type { AnalyzeStreamEvent } from "@/lib/ingest";
 
-function parseCSV(csvText: string): Transaction[] {
-  const lines = csvText.trim().split("\n");
-  if (lines.length < 2) throw new Error("CSV must have a header and at least one data row");
-
-  const header = lines[0].split(",").map(h => h.trim().toLowerCase());
-  const requiredColumns = ["transaction_id", "sender_id", "receiver_id", "amount", "timestamp"];
-
-  for (const col of requiredColumns) {
-    if (!header.includes(col)) {
-      throw new Error(`Missing required column: ${col}`);
-    }
-  }
-
-  const colIdx = {
-    transaction_id: header.indexOf("transaction_id"),
-    sender_id: header.indexOf("sender_id"),
-    receiver_id: header.indexOf("receiver_id"),
-    amount: header.indexOf("amount"),
-    timestamp: header.indexOf("timestamp"),
-  };
-
-  const transactions: Transaction[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const values = line.split(",").map(v => v.trim());
-
-    const amount = parseFloat(values[colIdx.amount]);
-    if (isNaN(amount)) continue;
-
-    transactions.push({
-      transaction_id: values[colIdx.transaction_id],
-      sender_id: values[colIdx.sender_id],
-      receiver_id: values[colIdx.receiver_id],
-      amount,
-      timestamp: values[colIdx.timestamp],
-    });
-  }
-
-  return transactions;
+function errorResponse(status: number, body: Record<string, unknown>) {
+  return NextResponse.json(body, { status });
 }
 
+// Accepts a multipart upload (one or more `file` fields plus optional
+// `format`, `config`, CSV dialect and mapping fields), or a raw body in any
+// input format with the same options (and `filename`) as query parameters.
+// Files may be gzip-compressed or ZIP archives; all are merged into one
+// analysis. Raw bodies are parsed as they arrive.
+// With `Accept: application/x-ndjson` the response is a stream of progress
+// and stage events ending in a result or error event.
 export async function POST(request: NextRequest) {
+  let input: AnalyzeInput | AnalyzeErrorOutcome;
   try {
-    const formData = await request.formData();
-    const file = formData.get("file") as File | null;
-
-    if (!file) {
-      return NextResponse.json({ error: "No file provided" }, { status: 400 });
-    }
-
-    const csvText = await file.text();
-    const transactions = parseCSV(csvText);
-
-    if (transactions.length === 0) {
-      return NextResponse.json({ error: "No valid transactions found in CSV" }, { status: 400 });
-    }
-
-    const result = analyzeTransactions(transactions);
-
-    return NextResponse.json(result);
+    input = await readAnalyzeInput(request);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(500, { error: message });
+  }
+  if ("status" in input) return errorResponse(input.status, input.body);
+
+  if (!(request.headers.get("accept") ?? "").includes("application/x-ndjson")) {
+    const outcome = await runAnalysis(input);
+    return NextResponse.json(outcome.body, { status: outcome.status });
   }
+
+  const analyzeInput = input;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalyzeStreamEvent) =>
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      const outcome = await runAnalysis(analyzeInput, send);
+      send(
+        outcome.status === 200
+          ? { type: "result", result: outcome.body }
+          : { type: "error", status: outcome.status, body: outcome.body }
+      );
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+  });
 }
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isFinalJobStatus, subscribeToJob, type JobEvent } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Proxies drop idle connections, so a comment line is sent this often
+const KEEP_ALIVE_MS = 15_000;
+
+// Server-Sent Events for a job: a `status` event with the job view on
+// connect and on every status change, a `stage` event as each analysis
+// stage starts, progresses and completes, and `progress` events while
+// parsing. The stream ends after the job finishes.
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const id = (await params).id;
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    unsubscribe?.();
+    clearInterval(keepAlive);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: JobEvent) => {
+        const data = event.type === "status" ? event.job : event.type === "stage" ? event.stage : event.progress;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+        if (event.type === "status" && isFinalJobStatus(event.job.status)) {
+          queueMicrotask(() => {
+            stop();
+            controller.close();
+          });
+        }
+      };
+      unsubscribe = subscribeToJob(id, send);
+      if (unsubscribe) {
+        keepAlive = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_MS);
+      }
+    },
+    cancel: stop,
+  });
+
+  if (!unsubscribe) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform", Connection: "keep-alive" },
+  });
+}
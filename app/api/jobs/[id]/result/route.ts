@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobOutcome } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The analysis result of a succeeded job (same body as POST /api/analyze).
+// A failed job answers with the status and body it failed with; an
+// unfinished or cancelled one with 409.
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const found = getJobOutcome((await params).id);
+  if (!found) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const { job, outcome } = found;
+  if (!outcome || job.status === "cancelled") {
+    return NextResponse.json({ error: `Job is ${job.status}`, job }, { status: 409 });
+  }
+  return NextResponse.json(outcome.body, { status: outcome.status });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Status and progress of a job
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const job = getJob((await params).id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  return NextResponse.json(job, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Cancels a queued or running job, or discards a finished one
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  const job = cancelJob((await params).id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  return NextResponse.json(job);
+}
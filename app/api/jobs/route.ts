@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readAnalyzeInput } from "@/lib/analysis-runner";
+import { UploadTooLargeError } from "@/lib/ingest";
+import { createJob } from "@/lib/jobs";
+
+// Takes the same uploads as POST /api/analyze and queues the analysis.
+// Responds 202 with the job; poll GET /api/jobs/:id for its progress or
+// follow GET /api/jobs/:id/events.
+export async function POST(request: NextRequest) {
+  try {
+    const input = await readAnalyzeInput(request);
+    if ("status" in input) return NextResponse.json(input.body, { status: input.status });
+
+    const job = await createJob(input);
+    return NextResponse.json(job, {
+      status: 202,
+      headers: { Location: `/api/jobs/${job.job_id}` },
+    });
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CSV_PREVIEW_BYTES, csvOptionsFromFields, previewCsv } from "@/lib/csv-parser";
+import { UploadTooLargeError, createUploadMeter } from "@/lib/ingest";
+
+// The file slice plus the form's other fields and part headers
+const MAX_PREVIEW_BODY_BYTES = CSV_PREVIEW_BYTES + 16 * 1024;
+
+// First rows of an upload plus a suggested column mapping, so the
+// mapping can be confirmed before running the analysis. Clients send
+// the first CSV_PREVIEW_BYTES of the file; larger bodies are refused
+// as they stream in, and only that much of the file is read.
+export async function POST(request: NextRequest) {
+  try {
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_PREVIEW_BODY_BYTES) throw new UploadTooLargeError(MAX_PREVIEW_BODY_BYTES);
+
+    const body = request.body && createUploadMeter(MAX_PREVIEW_BODY_BYTES)(request.body);
+    const formData = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const csvOptions = csvOptionsFromFields(formData);
+    if ("error" in csvOptions) {
+      return NextResponse.json({ error: csvOptions.error }, { status: 400 });
+    }
+
+    const preview = await previewCsv(file.slice(0, CSV_PREVIEW_BYTES).stream(), csvOptions.options);
+
+    return NextResponse.json({
+      headers: preview.headers,
+      rows: preview.rows,
+      delimiter: preview.delimiter,
+      encoding: preview.encoding,
+      suggested_mapping: preview.suggestedMapping,
+    });
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json(
+        { error: `Send at most the first ${CSV_PREVIEW_BYTES / 1024} KB of the file for a preview` },
+        { status: 413 }
+      );
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { readAnalyzeInput, runAnalysis } from "@/lib/analysis-runner";
+import { internalError, outcomeResponse } from "@/lib/api-v1";
+
+// Takes the same uploads as POST /api/analyze and answers with the
+// AnalysisResult, or an ApiError envelope (see /api/v1/openapi.json)
+export async function POST(request: NextRequest) {
+  try {
+    const input = await readAnalyzeInput(request);
+    if ("status" in input) return outcomeResponse(input);
+    return outcomeResponse(await runAnalysis(input));
+  } catch (error) {
+    return internalError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { apiError, outcomeResponse } from "@/lib/api-v1";
+import { getJobOutcome } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The AnalysisResult of a succeeded job. A failed job answers with the
+// error it failed with; an unfinished or cancelled one with 409.
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const found = getJobOutcome((await params).id);
+  if (!found) return apiError(404, "not_found", "Job not found");
+
+  const { job, outcome } = found;
+  if (!outcome || job.status === "cancelled") {
+    return apiError(409, "job_not_finished", `Job is ${job.status}`, { job });
+  }
+  return outcomeResponse(outcome);
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-v1";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Status, progress and stages of a job
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const job = getJob((await params).id);
+  if (!job) return apiError(404, "not_found", "Job not found");
+  return NextResponse.json(job, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Cancels a queued or running job, or discards a finished one
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  const job = cancelJob((await params).id);
+  if (!job) return apiError(404, "not_found", "Job not found");
+  return NextResponse.json(job);
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readAnalyzeInput } from "@/lib/analysis-runner";
+import { API_V1_BASE, apiError, internalError, outcomeResponse } from "@/lib/api-v1";
+import { UploadTooLargeError } from "@/lib/ingest";
+import { createJob } from "@/lib/jobs";
+
+// Takes the same uploads as POST /api/v1/analyze and queues the analysis.
+// Responds 202 with the job; poll GET /api/v1/jobs/:id for its progress.
+export async function POST(request: NextRequest) {
+  try {
+    const input = await readAnalyzeInput(request);
+    if ("status" in input) return outcomeResponse(input);
+
+    const job = await createJob(input);
+    return NextResponse.json(job, {
+      status: 202,
+      headers: { Location: `${API_V1_BASE}/jobs/${job.job_id}` },
+    });
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) return apiError(413, "upload_too_large", error.message);
+    return internalError(error);
+  }
+}
@@ -1,24 +1,53 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { CSVUpload } from "@/components/csv-upload";
 import { GraphVisualization } from "@/components/graph-visualization";
 import { SummaryStats } from "@/components/summary-stats";
 import { FraudRingTable } from "@/components/fraud-ring-table";
 import { SuspiciousAccountsTable } from "@/components/suspicious-accounts-table";
 import { JSONDownload } from "@/components/json-download";
+import { DataQualityPanel } from "@/components/data-quality-panel";
 import type { AnalysisResult } from "@/lib/graph-engine";
 import { Shield, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function Home() {
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  // The analysis ID is kept in the URL (?analysis=<id>) so that coming
+  // back from an account page reloads the result from the server
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("analysis");
+    if (!id) return;
+    fetch(`/api/jobs/${id}/result`)
+      .then((response) => (response.ok ? response.json() : Promise.reject()))
+      .then((data) => {
+        setResult(data as AnalysisResult);
+        setAnalysisId(id);
+      })
+      .catch(() => window.history.replaceState(null, "", "/"));
+  }, []);
+
+  const handleAnalysisComplete = useCallback((data: unknown, id: string) => {
+    setResult(data as AnalysisResult);
+    setAnalysisId(id);
+    window.history.replaceState(null, "", `/?analysis=${encodeURIComponent(id)}`);
+  }, []);
+
   const handleReset = () => {
     setResult(null);
+    setAnalysisId(null);
+    window.history.replaceState(null, "", "/");
   };
 
+  const accountHref = analysisId
+    ? (accountId: string) =>
+        `/analyses/${encodeURIComponent(analysisId)}/accounts/${encodeURIComponent(accountId)}`
+    : undefined;
+
   return (
     <main className="min-h-screen bg-background">
       {/* Header */}
@@ -66,7 +95,7 @@ export default function Home() {
               </p>
             </div>
             <CSVUpload
-              onAnalysisComplete={(data) => setResult(data as AnalysisResult)}
+              onAnalysisComplete={handleAnalysisComplete}
               isLoading={isLoading}
               setIsLoading={setIsLoading}
             />
@@ -99,6 +128,13 @@ export default function Home() {
         ) : (
           /* Results State */
           <div className="flex flex-col gap-8">
+            {/* Data Quality */}
+            <DataQualityPanel
+              report={result.data_quality}
+              rejectedRowCount={result.rejected_row_count}
+              sourceFiles={result.source_files}
+            />
+
             {/* Summary Statistics */}
             <SummaryStats summary={result.summary} />
 
@@ -109,11 +145,11 @@ export default function Home() {
                   <h2 className="text-lg font-semibold text-foreground">Transaction Network Graph</h2>
                   <p className="text-sm text-muted-foreground">
                     {result.nodes.length} accounts, {result.edges.length} transactions.
-                    Suspicious nodes are highlighted by ring color.
+                    Suspicious nodes are highlighted by ring color.{accountHref && " Click a node for account details."}
                   </p>
                 </div>
               </div>
-              <GraphVisualization nodes={result.nodes} edges={result.edges} />
+              <GraphVisualization nodes={result.nodes} edges={result.edges} accountHref={accountHref} />
             </section>
 
             {/* Fraud Ring Summary Table */}
@@ -135,7 +171,7 @@ export default function Home() {
                   {result.suspicious_accounts.length} accounts flagged, sorted by suspicion score (descending).
                 </p>
               </div>
-              <SuspiciousAccountsTable accounts={result.suspicious_accounts} />
+              <SuspiciousAccountsTable accounts={result.suspicious_accounts} accountHref={accountHref} />
             </section>
           </div>
         )}
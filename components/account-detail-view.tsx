@@ -0,0 +1,245 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowDownLeft, ArrowUpRight } from "lucide-react";
+import type { AccountDetail } from "@/lib/account-detail";
+import type { GraphEdge } from "@/lib/graph-engine";
+import { ScoreBreakdown } from "@/components/suspicious-accounts-table";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AccountDetailViewProps {
+  detail: AccountDetail;
+  accountHref: (accountId: string) => string;
+}
+
+// Rows shown per table; the API returns all of them
+const MAX_ROWS = 100;
+
+function formatAmount(amount: number, currency?: string): string {
+  return currency ? `${amount.toLocaleString()} ${currency}` : `$${amount.toLocaleString()}`;
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <section>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-foreground">{title}</h2>
+        <p className="text-sm text-muted-foreground">{subtitle}</p>
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function MoreRows({ shown, total }: { shown: number; total: number }) {
+  if (total <= shown) return null;
+  return (
+    <div className="border-t border-border px-4 py-2 text-xs text-muted-foreground">
+      Showing {shown} of {total}
+    </div>
+  );
+}
+
+export function AccountDetailView({ detail, accountHref }: AccountDetailViewProps) {
+  const { node } = detail;
+  const accountLink = (accountId: string) => (
+    <Link href={accountHref(accountId)} className="font-mono hover:underline">
+      {accountId}
+    </Link>
+  );
+
+  const stats = [
+    { label: "Total Sent", value: `$${node.total_sent.toLocaleString()}` },
+    { label: "Total Received", value: `$${node.total_received.toLocaleString()}` },
+    { label: "Transactions", value: node.transaction_count.toLocaleString() },
+    { label: "Median Dwell", value: node.median_dwell_hours === null ? "n/a" : `${node.median_dwell_hours}h` },
+    { label: "P90 Dwell", value: node.p90_dwell_hours === null ? "n/a" : `${node.p90_dwell_hours}h` },
+    { label: "Forwarded <24h", value: `${node.forwarded_within_24h_pct}%` },
+  ];
+
+  const transactions: (GraphEdge & { direction: "in" | "out" })[] = [
+    ...detail.incoming.map((edge) => ({ ...edge, direction: "in" as const })),
+    ...detail.outgoing.map((edge) => ({ ...edge, direction: "out" as const })),
+  ];
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="font-mono text-2xl font-bold text-foreground">{node.id}</h2>
+        {node.suspicious ? (
+          <span className="rounded-md bg-destructive/15 px-2 py-0.5 text-xs font-bold font-mono text-destructive">
+            Suspicion score {node.suspicion_score}
+          </span>
+        ) : (
+          <span className="rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">Not flagged</span>
+        )}
+        {node.patterns.map((pattern) => (
+          <span
+            key={pattern}
+            className="rounded bg-secondary px-1.5 py-0.5 text-[10px] font-mono text-muted-foreground"
+          >
+            {pattern}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-lg border border-border bg-card p-4">
+            <p className="text-xl font-bold font-mono text-foreground">{stat.value}</p>
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {detail.score_breakdown.length > 0 && (
+        <Section title="Score Breakdown" subtitle="How the suspicion score adds up, with the evidence behind each line.">
+          <div className="rounded-lg border border-border bg-card p-4">
+            <ScoreBreakdown contributions={detail.score_breakdown} />
+          </div>
+        </Section>
+      )}
+
+      <Section
+        title="Ring Memberships"
+        subtitle={`${detail.rings.length} rings, by descending risk.`}
+      >
+        <div className="rounded-lg border border-border bg-card overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground font-medium">Ring ID</TableHead>
+                <TableHead className="text-muted-foreground font-medium">Pattern</TableHead>
+                <TableHead className="text-muted-foreground font-medium">Role</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Members</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Risk Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.rings.map((ring) => (
+                <TableRow key={ring.ring_id} className="border-border">
+                  <TableCell className="font-mono text-sm text-foreground">
+                    {ring.ring_id}
+                    {ring.primary && (
+                      <span className="ml-2 rounded bg-primary/15 px-1.5 py-0.5 text-[10px] text-primary">primary</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{ring.pattern_type}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{ring.role}</TableCell>
+                  <TableCell className="text-right font-mono text-sm text-foreground">{ring.member_count}</TableCell>
+                  <TableCell className="text-right font-mono text-sm text-foreground">{ring.risk_score}</TableCell>
+                </TableRow>
+              ))}
+              {detail.rings.length === 0 && (
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Not a member of any ring
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Section>
+
+      <Section
+        title="Counterparties"
+        subtitle={`${detail.counterparties.length} accounts, ranked by volume in both directions.`}
+      >
+        <div className="rounded-lg border border-border bg-card overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground font-medium">Account ID</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Sent To</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Received From</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Volume</TableHead>
+                <TableHead className="text-muted-foreground font-medium text-right">Transactions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.counterparties.slice(0, MAX_ROWS).map((counterparty) => (
+                <TableRow key={counterparty.account_id} className="border-border">
+                  <TableCell className={`text-sm ${counterparty.suspicious ? "text-destructive" : "text-foreground"}`}>
+                    {accountLink(counterparty.account_id)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm text-foreground">
+                    ${counterparty.sent.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm text-foreground">
+                    ${counterparty.received.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm font-semibold text-foreground">
+                    ${counterparty.volume.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm text-foreground">
+                    {counterparty.transaction_count}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <MoreRows shown={MAX_ROWS} total={detail.counterparties.length} />
+        </div>
+      </Section>
+
+      <Section
+        title="Transactions"
+        subtitle={`${detail.incoming.length} in, ${detail.outgoing.length} out, in input order.`}
+      >
+        <div className="rounded-lg border border-border bg-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground font-medium">Direction</TableHead>
+                  <TableHead className="text-muted-foreground font-medium">Transaction ID</TableHead>
+                  <TableHead className="text-muted-foreground font-medium">Counterparty</TableHead>
+                  <TableHead className="text-muted-foreground font-medium text-right">Amount</TableHead>
+                  <TableHead className="text-muted-foreground font-medium">Timestamp</TableHead>
+                  <TableHead className="text-muted-foreground font-medium">Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.slice(0, MAX_ROWS).map((tx) => (
+                  <TableRow key={`${tx.direction}-${tx.transaction_id}`} className="border-border">
+                    <TableCell>
+                      {tx.direction === "in" ? (
+                        <span className="inline-flex items-center gap-1 text-xs text-success">
+                          <ArrowDownLeft className="h-3.5 w-3.5" /> In
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 text-xs text-warning">
+                          <ArrowUpRight className="h-3.5 w-3.5" /> Out
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{tx.transaction_id}</TableCell>
+                    <TableCell className="text-sm text-foreground">
+                      {accountLink(tx.direction === "in" ? tx.source : tx.target)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm text-foreground">
+                      {formatAmount(tx.amount, tx.currency)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{tx.timestamp}</TableCell>
+                    <TableCell className="font-mono text-[10px] text-warning">
+                      {tx.quality_flags?.join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <MoreRows shown={MAX_ROWS} total={transactions.length} />
+        </div>
+      </Section>
+    </div>
+  );
+}
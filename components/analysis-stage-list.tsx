@@ -0,0 +1,55 @@
+"use client";
+
+import { CheckCircle2, Loader2 } from "lucide-react";
+import type { AnalysisStageEvent } from "@/lib/graph-engine";
+
+// Stage name -> label and what its count counts. Unknown stages (e.g. a
+// newly registered detector) fall back to their name and "found".
+export const ANALYSIS_STAGE_LABELS: Record<string, { label: string; unit: string }> = {
+  parse: { label: "Parsing input", unit: "transactions" },
+  normalize: { label: "Normalising timestamps", unit: "transactions" },
+  data_quality: { label: "Data-quality checks", unit: "transactions kept" },
+  adjacency: { label: "Building the transaction graph", unit: "accounts" },
+  cycle: { label: "Circular fund routing", unit: "found" },
+  smurfing: { label: "Fan-in / fan-out smurfing", unit: "found" },
+  scatter_gather: { label: "Scatter-gather", unit: "found" },
+  structuring: { label: "Structuring", unit: "found" },
+  shell_network: { label: "Layered shell networks", unit: "found" },
+  rapid_pass_through: { label: "Rapid pass-through", unit: "found" },
+  scoring: { label: "Scoring accounts", unit: "suspicious" },
+  output: { label: "Preparing the graph", unit: "nodes and edges" },
+};
+
+export function formatElapsed(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+interface AnalysisStageListProps {
+  stages: AnalysisStageEvent[];
+}
+
+export function AnalysisStageList({ stages }: AnalysisStageListProps) {
+  if (stages.length === 0) return null;
+
+  return (
+    <ul className="mt-4 space-y-1.5 text-left text-sm" aria-label="Analysis stages">
+      {stages.map((event) => {
+        const { label, unit } = ANALYSIS_STAGE_LABELS[event.stage] ?? { label: event.stage, unit: "found" };
+        const done = event.status === "completed";
+        return (
+          <li key={event.stage} className="flex items-center gap-2">
+            {done ? (
+              <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />
+            ) : (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+            )}
+            <span className={done ? "text-muted-foreground" : "text-foreground"}>{label}</span>
+            <span className="ml-auto font-mono text-xs text-muted-foreground">
+              {event.count.toLocaleString()} {unit} · {formatElapsed(event.elapsed_ms)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useMappingProfiles } from "@/hooks/use-mapping-profiles";
+import {
+  TRANSACTION_FIELDS,
+  isColumnMapping,
+  normalizeHeader,
+  type ColumnMapping,
+} from "@/lib/column-mapping";
+import {
+  DEFAULT_TIMESTAMP_OPTIONS,
+  TIMESTAMP_FORMATS,
+  TIMESTAMP_FORMAT_LABELS,
+  isValidTimeZone,
+  type TimestampFormat,
+  type TimestampOptions,
+} from "@/lib/timestamps";
+
+// Response of POST /api/preview
+export interface CsvPreviewResponse {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+  encoding: string;
+  suggested_mapping: Partial<ColumnMapping>;
+}
+
+interface ColumnMappingPreviewProps {
+  fileName: string;
+  preview: CsvPreviewResponse;
+  onConfirm: (mapping: ColumnMapping, timestamps: TimestampOptions) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingPreview({ fileName, preview, onConfirm, onCancel }: ColumnMappingPreviewProps) {
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(preview.suggested_mapping);
+  const [profileName, setProfileName] = useState("");
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>(DEFAULT_TIMESTAMP_OPTIONS.format);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMESTAMP_OPTIONS.timeZone);
+  const { profiles, saveProfile, deleteProfile } = useMappingProfiles();
+
+  // Only offer profiles whose columns all exist in this file
+  const fileHeaders = new Set(preview.headers.map(normalizeHeader));
+  const applicableProfiles = profiles.filter((profile) =>
+    TRANSACTION_FIELDS.every((field) => fileHeaders.has(normalizeHeader(profile.mapping[field])))
+  );
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) return;
+    // Use the file's own spelling of each header
+    const next: Partial<ColumnMapping> = {};
+    for (const field of TRANSACTION_FIELDS) {
+      next[field] = preview.headers.find((h) => normalizeHeader(h) === normalizeHeader(profile.mapping[field]));
+    }
+    setMapping(next);
+  };
+
+  const fieldForHeader = (header: string) =>
+    TRANSACTION_FIELDS.find((field) => mapping[field] === header);
+
+  const timeZoneValid = isValidTimeZone(timeZone.trim());
+  const complete = isColumnMapping(mapping);
+
+  return (
+    <div className="w-full max-w-4xl rounded-lg border border-border bg-card p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Confirm column mapping</h3>
+          <p className="text-sm text-muted-foreground">
+            {fileName}: {preview.headers.length} columns, delimiter{" "}
+            <span className="font-mono">{JSON.stringify(preview.delimiter)}</span>, {preview.encoding}
+          </p>
+        </div>
+        {applicableProfiles.length > 0 && (
+          <Select onValueChange={applyProfile}>
+            <SelectTrigger size="sm" className="w-56">
+              <SelectValue placeholder="Apply saved profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {applicableProfiles.map((profile) => (
+                <SelectItem key={profile.name} value={profile.name}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {TRANSACTION_FIELDS.map((field) => (
+          <div key={field} className="flex flex-col gap-1.5">
+            <span className="font-mono text-xs text-muted-foreground">{field}</span>
+            <Select
+              value={mapping[field] ?? ""}
+              onValueChange={(header) => setMapping((prev) => ({ ...prev, [field]: header }))}
+            >
+              <SelectTrigger size="sm" className="w-full" aria-label={`Column for ${field}`}>
+                <SelectValue placeholder="Select column" />
+              </SelectTrigger>
+              <SelectContent>
+                {preview.headers.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="flex flex-col gap-1.5 lg:col-span-2">
+          <span className="text-xs text-muted-foreground">Timestamp format</span>
+          <Select value={timestampFormat} onValueChange={(value) => setTimestampFormat(value as TimestampFormat)}>
+            <SelectTrigger size="sm" className="w-full" aria-label="Timestamp format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMESTAMP_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {TIMESTAMP_FORMAT_LABELS[format]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1.5 lg:col-span-2">
+          <span className="text-xs text-muted-foreground">Time zone for timestamps without an offset</span>
+          <Input
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            placeholder="UTC"
+            aria-invalid={!timeZoneValid}
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      <div className="mt-6 overflow-x-auto rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-transparent">
+              {preview.headers.map((header) => (
+                <TableHead key={header} className="text-muted-foreground font-medium">
+                  <div className="flex flex-col">
+                    <span>{header}</span>
+                    <span className="font-mono text-[10px] text-primary">{fieldForHeader(header) ?? ""}</span>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map((row, i) => (
+              <TableRow key={i} className="border-border">
+                {preview.headers.map((header, j) => (
+                  <TableCell key={header} className="font-mono text-xs text-foreground">
+                    {row[j]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name"
+            className="h-8 w-48"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!complete || !profileName.trim()}
+            onClick={() => {
+              if (isColumnMapping(mapping)) saveProfile(profileName.trim(), mapping);
+            }}
+            className="gap-2"
+          >
+            <Save className="h-4 w-4" />
+            Save profile
+          </Button>
+          {profiles.some((p) => p.name === profileName.trim()) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteProfile(profileName.trim())}
+              aria-label="Delete profile"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!complete || !timeZoneValid}
+            onClick={() => {
+              if (isColumnMapping(mapping)) {
+                onConfirm(mapping, { format: timestampFormat, timeZone: timeZone.trim() });
+              }
+            }}
+          >
+            Analyze
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
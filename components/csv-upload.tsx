@@ -1,11 +1,66 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Upload, FileText, Loader2, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AnalysisStageList } from "@/components/analysis-stage-list";
+import { ColumnMappingPreview, type CsvPreviewResponse } from "@/components/column-mapping-preview";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ColumnMapping } from "@/lib/column-mapping";
+import { CSV_PREVIEW_BYTES } from "@/lib/csv-parser";
+import {
+  STRUCTURING_JURISDICTIONS,
+  STRUCTURING_PRESETS,
+  type AnalysisStageEvent,
+  type StructuringJurisdiction,
+} from "@/lib/graph-engine";
+import type { TimestampOptions } from "@/lib/timestamps";
+import {
+  COMPRESSED_FILE_EXTENSIONS,
+  INPUT_FILE_EXTENSIONS,
+  INPUT_FORMATS,
+  INPUT_FORMAT_LABELS,
+  compressionOf,
+  inputFormatOfFileName,
+  type InputFormat,
+} from "@/lib/ingest";
+import { generateSyntheticDataset, toTransactionCsv } from "@/lib/synthetic";
+import {
+  cancelAnalysisJob,
+  followAnalysisJob,
+  submitAnalysisJob,
+  type AnalyzeProgress,
+  type AnalyzeStage,
+} from "@/lib/analyze-request";
+
+const ACCEPTED_EXTENSIONS = [...Object.values(INPUT_FILE_EXTENSIONS), ...Object.values(COMPRESSED_FILE_EXTENSIONS)]
+  .flat()
+  .join(",");
+
+const STAGE_LABELS: Record<AnalyzeStage, string> = {
+  upload: "Uploading",
+  queued: "Waiting for a free analysis slot",
+  parse: "Parsing",
+  analyze: "Analyzing transactions",
+};
+
+// The job being followed, so that a reloaded tab picks it up again
+const ACTIVE_JOB_STORAGE_KEY = "forensicgraph.active-job";
+
+interface ActiveJob {
+  jobId: string | null; // null while uploading
+  controller: AbortController;
+}
 
 interface CSVUploadProps {
-  onAnalysisComplete: (data: unknown) => void;
+  onAnalysisComplete: (data: unknown, analysisId: string) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
 }
@@ -15,50 +70,156 @@ export function CSVUpload({ onAnalysisComplete, isLoading, setIsLoading }: CSVUp
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFile = useCallback(
-    async (file: File) => {
-      if (!file.name.endsWith(".csv")) {
-        setError("Please upload a CSV file");
-        return;
-      }
+  const [inputFormat, setInputFormat] = useState<InputFormat | "auto">("auto");
+  const [jurisdiction, setJurisdiction] = useState<StructuringJurisdiction | "any">("any");
 
-      setFileName(file.name);
+  const [pending, setPending] = useState<{ files: File[]; preview: CsvPreviewResponse } | null>(null);
+  const [progress, setProgress] = useState<AnalyzeProgress | null>(null);
+  const [stages, setStages] = useState<AnalysisStageEvent[]>([]);
+  const activeJob = useRef<ActiveJob | null>(null);
+
+  // Uploads (unless resuming a job already on the server) and follows the
+  // job until its result arrives. Cancelling aborts without an error.
+  const trackJob = useCallback(
+    async (start: (active: ActiveJob) => Promise<string>, displayName: string) => {
+      const active: ActiveJob = { jobId: null, controller: new AbortController() };
+      activeJob.current = active;
+      setPending(null);
       setError(null);
+      setFileName(displayName);
+      setStages([]);
       setIsLoading(true);
 
       try {
-        const formData = new FormData();
-        formData.append("file", file);
-
-        const response = await fetch("/api/analyze", {
-          method: "POST",
-          body: formData,
+        active.jobId = await start(active);
+        localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify({ jobId: active.jobId, fileName: displayName }));
+        const result = await followAnalysisJob(active.jobId, {
+          onProgress: setProgress,
+          onStages: setStages,
+          signal: active.controller.signal,
         });
-
-        if (!response.ok) {
-          const errData = await response.json();
-          throw new Error(errData.error || "Analysis failed");
-        }
-
-        const result = await response.json();
-        onAnalysisComplete(result);
+        onAnalysisComplete(result, active.jobId);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to analyze file");
+        if (!active.controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Failed to analyze file");
+        }
       } finally {
-        setIsLoading(false);
+        if (activeJob.current === active) {
+          activeJob.current = null;
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          setIsLoading(false);
+          setProgress(null);
+          setStages([]);
+        }
       }
     },
     [onAnalysisComplete, setIsLoading]
   );
 
+  // Column mapping and timestamp options are confirmed for CSV only;
+  // other formats are sent as they are
+  const runAnalysis = useCallback(
+    (files: File[], format: InputFormat | null, mapping?: ColumnMapping, timestamps?: TimestampOptions) => {
+      setProgress({ stage: "upload", fraction: 0 });
+      const displayName = files.length === 1 ? files[0].name : `${files.length} files`;
+      return trackJob(async (active) => {
+        const job = await submitAnalysisJob(files, {
+          format,
+          mapping,
+          timestamps,
+          jurisdiction: jurisdiction === "any" ? undefined : jurisdiction,
+          onProgress: setProgress,
+          signal: active.controller.signal,
+        });
+        return job.job_id;
+      }, displayName);
+    },
+    [trackJob, jurisdiction]
+  );
+
+  const cancelAnalysis = useCallback(() => {
+    const active = activeJob.current;
+    if (!active) return;
+    active.controller.abort();
+    if (active.jobId) cancelAnalysisJob(active.jobId);
+  }, []);
+
+  // Resume following a job started before the page was reloaded (on
+  // mount only)
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const { jobId, fileName: savedFileName } = JSON.parse(saved) as { jobId: string; fileName: string };
+      setProgress({ stage: "queued", fraction: null });
+      trackJob(async () => jobId, savedFileName);
+    } catch {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    }
+  }, []);
+
+  // ZIP archives are opened by the server, which detects the format of
+  // each file inside; everything else must have a known format up front
+  const handleFiles = useCallback(async (files: File[]) => {
+    const explicitFormat = inputFormat === "auto" ? null : inputFormat;
+    const unrecognised = files.find(
+      (file) => !explicitFormat && !inputFormatOfFileName(file.name) && compressionOf({ name: file.name }) !== "zip"
+    );
+    if (unrecognised) {
+      setError(`Unrecognised file type of ${unrecognised.name}; choose its input format below`);
+      return;
+    }
+
+    setFileName(files.length === 1 ? files[0].name : `${files.length} files`);
+    const allPlainCsv = files.every(
+      (file) => (explicitFormat ?? inputFormatOfFileName(file.name)) === "csv" && !compressionOf({ name: file.name })
+    );
+    if (!allPlainCsv) {
+      runAnalysis(files, explicitFormat);
+      return;
+    }
+    setError(null);
+
+    // Read the header and first rows so the user can confirm the column
+    // mapping; it applies to every file dropped with this one. Only the
+    // start of the file is sent.
+    try {
+      const formData = new FormData();
+      formData.append("file", files[0].slice(0, CSV_PREVIEW_BYTES), files[0].name);
+
+      const response = await fetch("/api/preview", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errData = await response.json();
+        throw new Error(errData.error || "Preview failed");
+      }
+
+      const preview: CsvPreviewResponse = await response.json();
+      setPending({ files, preview });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  }, [inputFormat, runAnalysis]);
+
+  // Generated data with injected typologies (default seed, so every
+  // click gives the same dataset)
+  const loadSampleData = useCallback(() => {
+    const { transactions } = generateSyntheticDataset();
+    const file = new File([toTransactionCsv(transactions)], "sample-transactions.csv", { type: "text/csv" });
+    runAnalysis([file], "csv");
+  }, [runAnalysis]);
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setDragOver(false);
-      const file = e.dataTransfer.files[0];
-      if (file) handleFile(file);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) handleFiles(files);
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -70,6 +231,22 @@ export function CSVUpload({ onAnalysisComplete, isLoading, setIsLoading }: CSVUp
     setDragOver(false);
   }, []);
 
+  if (pending && !isLoading) {
+    return (
+      <div className="flex flex-col items-center gap-6">
+        <ColumnMappingPreview
+          fileName={fileName ?? pending.files[0].name}
+          preview={pending.preview}
+          onConfirm={(mapping, timestamps) => runAnalysis(pending.files, "csv", mapping, timestamps)}
+          onCancel={() => {
+            setPending(null);
+            setFileName(null);
+          }}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center gap-6">
       <div
@@ -85,28 +262,36 @@ export function CSVUpload({ onAnalysisComplete, isLoading, setIsLoading }: CSVUp
           if (!isLoading) {
             const input = document.createElement("input");
             input.type = "file";
-            input.accept = ".csv";
+            input.accept = ACCEPTED_EXTENSIONS;
+            input.multiple = true;
             input.onchange = (e) => {
-              const file = (e.target as HTMLInputElement).files?.[0];
-              if (file) handleFile(file);
+              const files = Array.from((e.target as HTMLInputElement).files ?? []);
+              if (files.length > 0) handleFiles(files);
             };
             input.click();
           }
         }}
         role="button"
         tabIndex={0}
-        aria-label="Upload CSV file"
+        aria-label="Upload transaction file"
       >
         {isLoading ? (
           <div className="flex flex-col items-center gap-4">
             <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-            <div>
-              <p className="text-lg font-medium text-foreground">Analyzing transactions...</p>
+            <div className="w-full max-w-sm">
+              <p className="text-lg font-medium text-foreground">
+                {STAGE_LABELS[progress?.stage ?? "upload"]}
+                {progress?.fraction != null ? ` ${Math.round(progress.fraction * 100)}%` : "..."}
+              </p>
               <p className="mt-1 text-sm text-muted-foreground">
-                Running graph algorithms on {fileName}
+                {progress?.stage === "analyze" ? `Running graph algorithms on ${fileName}` : fileName}
               </p>
+              {progress?.stage !== "analyze" && (
+                <Progress className="mt-4" value={(progress?.fraction ?? 0) * 100} />
+              )}
+              <AnalysisStageList stages={stages} />
             </div>
           </div>
         ) : (
@@ -120,10 +305,11 @@ export function CSVUpload({ onAnalysisComplete, isLoading, setIsLoading }: CSVUp
             </div>
             <div>
               <p className="text-lg font-medium text-foreground">
-                {fileName ? fileName : "Drop your CSV file here"}
+                {fileName ? fileName : "Drop your transaction files here"}
               </p>
               <p className="mt-1 text-sm text-muted-foreground">
-                or click to browse. Accepts transaction CSV files.
+                or click to browse. CSV, JSON, NDJSON, ISO 20022 XML and SWIFT FIN are accepted, also gzipped or
+                in a ZIP archive; several files are merged into one analysis. CSV columns can be remapped.
               </p>
             </div>
             <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-muted-foreground font-mono">
@@ -137,6 +323,49 @@ export function CSVUpload({ onAnalysisComplete, isLoading, setIsLoading }: CSVUp
         )}
       </div>
 
+      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+        <span>Input format</span>
+        <Select value={inputFormat} onValueChange={(value) => setInputFormat(value as InputFormat | "auto")}>
+          <SelectTrigger size="sm" className="w-72" aria-label="Input format" disabled={isLoading}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Detect from file extension</SelectItem>
+            {INPUT_FORMATS.map((format) => (
+              <SelectItem key={format} value={format}>
+                {INPUT_FORMAT_LABELS[format]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+        <span>Structuring threshold</span>
+        <Select value={jurisdiction} onValueChange={(value) => setJurisdiction(value as StructuringJurisdiction | "any")}>
+          <SelectTrigger size="sm" className="w-96" aria-label="Structuring threshold" disabled={isLoading}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">10,000 in any currency</SelectItem>
+            {STRUCTURING_JURISDICTIONS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {STRUCTURING_PRESETS[id].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isLoading ? (
+          <Button variant="outline" size="sm" onClick={cancelAnalysis}>
+            Cancel analysis
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={loadSampleData}>
+            Load sample data
+          </Button>
+        )}
+      </div>
+
       {error && (
         <div className="flex items-center gap-2 rounded-md bg-destructive/10 px-4 py-3 text-sm text-destructive">
           <AlertCircle className="h-4 w-4 shrink-0" />
@@ -0,0 +1,126 @@
+"use client";
+
+import { CheckCircle2, ShieldAlert } from "lucide-react";
+import type {
+  DataQualityPolicy,
+  DataQualityReport,
+  DataQualitySeverity,
+} from "@/lib/data-quality";
+import type { SourceFile } from "@/lib/graph-engine";
+import { TIMESTAMP_FORMAT_LABELS } from "@/lib/timestamps";
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  rejectedRowCount?: number;
+  sourceFiles?: SourceFile[];
+}
+
+function getPolicyLabel(policy: DataQualityPolicy): string {
+  switch (policy) {
+    case "reject":
+      return "Rejected upload";
+    case "drop":
+      return "Dropped";
+    case "flag":
+      return "Kept and flagged";
+  }
+}
+
+function getSeverityBadge(severity: DataQualitySeverity): string {
+  return severity === "error"
+    ? "bg-destructive/15 text-destructive"
+    : "bg-warning/15 text-warning";
+}
+
+export function DataQualityPanel({ report, rejectedRowCount = 0, sourceFiles = [] }: DataQualityPanelProps) {
+  const skippedFiles = sourceFiles.filter((file) => file.format === null);
+
+  if (report.issues.length === 0 && rejectedRowCount === 0 && skippedFiles.length === 0) {
+    return (
+      <div className="flex items-center gap-3 rounded-lg border border-border bg-card px-4 py-3">
+        <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />
+        <p className="text-sm text-muted-foreground">
+          Data quality: all {report.total_transactions.toLocaleString()} transactions
+          {sourceFiles.length > 1 && ` from ${sourceFiles.length} files`} passed checks.
+          Timestamps read as {TIMESTAMP_FORMAT_LABELS[report.timestamp_format]}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="h-4 w-4 shrink-0 text-warning" />
+          <h2 className="text-sm font-semibold text-foreground">Data Quality</h2>
+          <span className="text-xs text-muted-foreground">
+            Timestamps read as {TIMESTAMP_FORMAT_LABELS[report.timestamp_format]}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground font-mono">
+          {report.accepted_transactions.toLocaleString()} of {report.total_transactions.toLocaleString()} analyzed
+          {report.dropped_transactions > 0 && `, ${report.dropped_transactions.toLocaleString()} dropped`}
+          {report.flagged_transactions > 0 && `, ${report.flagged_transactions.toLocaleString()} flagged`}
+        </p>
+      </div>
+
+      <ul className="mt-3 flex flex-col divide-y divide-border">
+        {report.issues.map((issue) => (
+          <li key={issue.type} className="flex flex-col gap-1 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${getSeverityBadge(issue.severity)}`}>
+                {issue.severity}
+              </span>
+              <span className="text-foreground">{issue.description}</span>
+              <span className="font-mono text-foreground">{issue.count.toLocaleString()}</span>
+              <span className="text-xs text-muted-foreground">{getPolicyLabel(issue.policy)}</span>
+            </div>
+            <p className="font-mono text-xs text-muted-foreground">
+              e.g.{" "}
+              {issue.examples
+                .map((example) =>
+                  example.value === example.transaction_id
+                    ? example.transaction_id
+                    : `${example.transaction_id} (${example.value || "empty"})`
+                )
+                .join(", ")}
+            </p>
+          </li>
+        ))}
+        {rejectedRowCount > 0 && (
+          <li className="flex flex-wrap items-center gap-2 py-2 text-sm">
+            <span className="rounded bg-destructive/15 px-1.5 py-0.5 text-[10px] font-medium uppercase text-destructive">
+              error
+            </span>
+            <span className="text-foreground">Unparseable input records</span>
+            <span className="font-mono text-foreground">{rejectedRowCount.toLocaleString()}</span>
+            <span className="text-xs text-muted-foreground">Skipped, details in the JSON report</span>
+          </li>
+        )}
+        {sourceFiles.length > 1 && (
+          <li className="flex flex-col gap-1 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-foreground">Files merged</span>
+              <span className="font-mono text-foreground">{sourceFiles.length - skippedFiles.length}</span>
+              {skippedFiles.length > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {skippedFiles.length} of unrecognised type skipped
+                </span>
+              )}
+            </div>
+            <p className="font-mono text-xs text-muted-foreground">
+              {sourceFiles
+                .map((file) =>
+                  file.format === null
+                    ? `${file.name} (skipped)`
+                    : `${file.name} (${file.transaction_count.toLocaleString()})`
+                )
+                .join(", ")}
+            </p>
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
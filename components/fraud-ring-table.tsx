@@ -24,6 +24,12 @@ function getPatternLabel(type: string): string {
       return "Fan-Out (Smurfing)";
     case "shell_network":
       return "Shell Network";
+    case "structuring":
+      return "Structuring";
+    case "rapid_pass_through":
+      return "Rapid Pass-Through";
+    case "scatter_gather":
+      return "Scatter-Gather";
     default:
       return type;
   }
@@ -60,6 +66,7 @@ export function FraudRingTable({ rings }: FraudRingTableProps) {
               <TableHead className="text-muted-foreground font-medium">Pattern Type</TableHead>
               <TableHead className="text-muted-foreground font-medium text-center">Members</TableHead>
               <TableHead className="text-muted-foreground font-medium text-right">Risk Score</TableHead>
+              <TableHead className="text-muted-foreground font-medium text-right">Retention</TableHead>
               <TableHead className="text-muted-foreground font-medium">Member Account IDs</TableHead>
             </TableRow>
           </TableHeader>
@@ -84,6 +91,19 @@ export function FraudRingTable({ rings }: FraudRingTableProps) {
                     {ring.risk_score}
                   </span>
                 </TableCell>
+                <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                  {ring.amount_profile ? (
+                    <span
+                      title={ring.amount_profile.hops
+                        .map((hop) => `${hop.account_id}: ${hop.retention_pct}% passed on, fee ${hop.fee.toLocaleString()}`)
+                        .join("\n")}
+                    >
+                      {ring.amount_profile.overall_retention_pct}%
+                    </span>
+                  ) : (
+                    "-"
+                  )}
+                </TableCell>
                 <TableCell className="max-w-[400px]">
                   <div className="flex flex-wrap gap-1">
                     {ring.member_accounts.slice(0, 8).map((id) => (
@@ -92,6 +112,9 @@ export function FraudRingTable({ rings }: FraudRingTableProps) {
                         className="inline-block rounded bg-secondary px-1.5 py-0.5 text-[10px] font-mono text-muted-foreground"
                       >
                         {id}
+                        {ring.member_roles?.[id] && (
+                          <span className="ml-1 text-foreground">{ring.member_roles[id]}</span>
+                        )}
                       </span>
                     ))}
                     {ring.member_accounts.length > 8 && (
@@ -100,6 +123,11 @@ export function FraudRingTable({ rings }: FraudRingTableProps) {
                       </span>
                     )}
                   </div>
+                  {ring.transaction_ids && ring.transaction_ids.length > 0 && (
+                    <p className="mt-1 text-[10px] font-mono text-muted-foreground">
+                      via {ring.transaction_ids.join(" \u2192 ")}
+                    </p>
+                  )}
                 </TableCell>
               </TableRow>
             ))}
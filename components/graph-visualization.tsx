@@ -1,11 +1,14 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
 import type { GraphNode, GraphEdge } from "@/lib/graph-engine";
 
 interface GraphVisualizationProps {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  // Detail page of an account; clicking a node opens it when given
+  accountHref?: (accountId: string) => string;
 }
 
 interface LayoutNode extends GraphNode {
@@ -33,7 +36,11 @@ function getRingColor(ringId: string, ringMap: Map<string, number>): string {
   return RING_COLORS[ringMap.get(ringId)!];
 }
 
-export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
+// Pointer travel (px) up to which a press and release is a click, not a drag
+const CLICK_TOLERANCE_PX = 4;
+
+export function GraphVisualization({ nodes, edges, accountHref }: GraphVisualizationProps) {
+  const router = useRouter();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [hoveredNode, setHoveredNode] = useState<LayoutNode | null>(null);
@@ -44,6 +51,7 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
   const scaleRef = useRef(1);
   const isDraggingRef = useRef(false);
   const lastMouseRef = useRef({ x: 0, y: 0 });
+  const mouseDownRef = useRef({ x: 0, y: 0 });
   const ringMapRef = useRef(new Map<string, number>());
 
   // Initialize force-directed layout
@@ -259,6 +267,21 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
     []
   );
 
+  const nodeAt = useCallback(
+    (e: React.MouseEvent): LayoutNode | null => {
+      const pos = getMousePos(e);
+      for (const node of layoutNodesRef.current) {
+        const dx = pos.x - node.x;
+        const dy = pos.y - node.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        const hitRadius = node.suspicious ? 14 : 8;
+        if (dist < hitRadius) return node;
+      }
+      return null;
+    },
+    [getMousePos]
+  );
+
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       if (isDraggingRef.current) {
@@ -268,21 +291,7 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
         return;
       }
 
-      const pos = getMousePos(e);
-      const layoutNodes = layoutNodesRef.current;
-
-      let found: LayoutNode | null = null;
-      for (const node of layoutNodes) {
-        const dx = pos.x - node.x;
-        const dy = pos.y - node.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        const hitRadius = node.suspicious ? 14 : 8;
-        if (dist < hitRadius) {
-          found = node;
-          break;
-        }
-      }
-
+      const found = nodeAt(e);
       setHoveredNode(found);
       if (found) {
         const canvas = canvasRef.current;
@@ -295,18 +304,30 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
         }
       }
     },
-    [getMousePos]
+    [nodeAt]
   );
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     isDraggingRef.current = true;
     lastMouseRef.current = { x: e.clientX, y: e.clientY };
+    mouseDownRef.current = { x: e.clientX, y: e.clientY };
   }, []);
 
   const handleMouseUp = useCallback(() => {
     isDraggingRef.current = false;
   }, []);
 
+  const handleClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (!accountHref) return;
+      const moved = Math.hypot(e.clientX - mouseDownRef.current.x, e.clientY - mouseDownRef.current.y);
+      if (moved > CLICK_TOLERANCE_PX) return;
+      const node = nodeAt(e);
+      if (node) router.push(accountHref(node.id));
+    },
+    [accountHref, nodeAt, router]
+  );
+
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
@@ -327,10 +348,13 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
     <div ref={containerRef} className="relative h-[500px] w-full overflow-hidden rounded-lg border border-border bg-background">
       <canvas
         ref={canvasRef}
-        className="h-full w-full cursor-grab active:cursor-grabbing"
+        className={`h-full w-full active:cursor-grabbing ${
+          hoveredNode && accountHref ? "cursor-pointer" : "cursor-grab"
+        }`}
         onMouseMove={handleMouseMove}
         onMouseDown={handleMouseDown}
         onMouseUp={handleMouseUp}
+        onClick={handleClick}
         onMouseLeave={handleMouseUp}
         onWheel={handleWheel}
       />
@@ -375,6 +399,22 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
               <span className="text-muted-foreground">Transactions</span>
               <span className="text-foreground font-mono">{hoveredNode.transaction_count}</span>
             </div>
+            {hoveredNode.median_dwell_hours !== null && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Median Dwell</span>
+                  <span className="text-foreground font-mono">{hoveredNode.median_dwell_hours}h</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">P90 Dwell</span>
+                  <span className="text-foreground font-mono">{hoveredNode.p90_dwell_hours}h</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Forwarded &lt;24h</span>
+                  <span className="text-foreground font-mono">{hoveredNode.forwarded_within_24h_pct}%</span>
+                </div>
+              </>
+            )}
             {hoveredNode.suspicious && (
               <>
                 <div className="mt-1 border-t border-border pt-1">
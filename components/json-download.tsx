@@ -14,6 +14,11 @@ export function JSONDownload({ data }: JSONDownloadProps) {
       suspicious_accounts: data.suspicious_accounts,
       fraud_rings: data.fraud_rings,
       summary: data.summary,
+      config: data.config,
+      data_quality: data.data_quality,
+      rejected_rows: data.rejected_rows,
+      rejected_row_count: data.rejected_row_count,
+      source_files: data.source_files,
     };
 
     const blob = new Blob([JSON.stringify(output, null, 2)], {
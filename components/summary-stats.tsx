@@ -1,12 +1,72 @@
 "use client";
 
-import { Activity, AlertTriangle, Network, Clock } from "lucide-react";
-import type { AnalysisSummary } from "@/lib/graph-engine";
+import { useState } from "react";
+import { Activity, AlertTriangle, Network, Clock, ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ANALYSIS_STAGE_LABELS, formatElapsed } from "@/components/analysis-stage-list";
+import type { AnalysisSummary, StageTiming } from "@/lib/graph-engine";
 
 interface SummaryStatsProps {
   summary: AnalysisSummary;
 }
 
+function formatMegabytes(bytes: number | null): string {
+  return bytes === null ? "n/a" : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function StageBreakdown({ stages }: { stages: StageTiming[] }) {
+  const [open, setOpen] = useState(false);
+  const slowest = Math.max(...stages.map((stage) => stage.elapsed_ms), 1);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border bg-card">
+      <CollapsibleTrigger className="flex w-full items-center justify-between px-4 py-3 text-sm font-medium text-foreground">
+        Processing time by stage
+        <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-t border-border text-left text-xs text-muted-foreground">
+              <th className="px-4 py-2 font-medium">Stage</th>
+              <th className="px-4 py-2 font-medium">Wall time</th>
+              <th className="px-4 py-2 text-right font-medium">Count</th>
+              <th className="px-4 py-2 text-right font-medium">Peak heap</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map((timing) => {
+              const { label, unit } = ANALYSIS_STAGE_LABELS[timing.stage] ?? { label: timing.stage, unit: "found" };
+              return (
+                <tr key={timing.stage} className="border-t border-border">
+                  <td className="px-4 py-2 text-foreground">{label}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-3">
+                      <div className="h-1.5 w-24 shrink-0 overflow-hidden rounded-full bg-secondary">
+                        <div
+                          className="h-full rounded-full bg-primary"
+                          style={{ width: `${(timing.elapsed_ms / slowest) * 100}%` }}
+                        />
+                      </div>
+                      <span className="font-mono text-xs text-muted-foreground">{formatElapsed(timing.elapsed_ms)}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-xs text-muted-foreground">
+                    {timing.count.toLocaleString()} {unit}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-xs text-muted-foreground">
+                    {formatMegabytes(timing.peak_heap_bytes)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 export function SummaryStats({ summary }: SummaryStatsProps) {
   const stats = [
     {
@@ -40,21 +100,24 @@ export function SummaryStats({ summary }: SummaryStatsProps) {
   ];
 
   return (
-    <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
-      {stats.map((stat) => (
-        <div
-          key={stat.label}
-          className="flex items-center gap-4 rounded-lg border border-border bg-card p-4"
-        >
-          <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg ${stat.bgColor}`}>
-            <stat.icon className={`h-5 w-5 ${stat.color}`} />
-          </div>
-          <div>
-            <p className="text-2xl font-bold font-mono text-foreground">{stat.value}</p>
-            <p className="text-xs text-muted-foreground">{stat.label}</p>
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className="flex items-center gap-4 rounded-lg border border-border bg-card p-4"
+          >
+            <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg ${stat.bgColor}`}>
+              <stat.icon className={`h-5 w-5 ${stat.color}`} />
+            </div>
+            <div>
+              <p className="text-2xl font-bold font-mono text-foreground">{stat.value}</p>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </div>
           </div>
-        </div>
-      ))}
+        ))}
+      </div>
+      {summary.stages.length > 0 && <StageBreakdown stages={summary.stages} />}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 "use client";
 
-import type { SuspiciousAccount } from "@/lib/graph-engine";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { ScoreContribution, SuspiciousAccount } from "@/lib/graph-engine";
 import {
   Table,
   TableBody,
@@ -9,9 +11,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 interface SuspiciousAccountsTableProps {
   accounts: SuspiciousAccount[];
+  // Detail page of an account; rows link to it when given
+  accountHref?: (accountId: string) => string;
 }
 
 function getScoreColor(score: number): string {
@@ -20,7 +25,35 @@ function getScoreColor(score: number): string {
   return "bg-muted text-muted-foreground";
 }
 
-export function SuspiciousAccountsTable({ accounts }: SuspiciousAccountsTableProps) {
+export function ScoreBreakdown({ contributions }: { contributions: ScoreContribution[] }) {
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <p className="font-semibold text-foreground">Score breakdown</p>
+      {contributions.map((c) => (
+        <div key={c.factor} className="border-t border-border pt-2">
+          <div className="flex justify-between gap-2">
+            <span className="font-mono text-foreground">{c.factor}</span>
+            <span className="font-mono font-bold text-foreground">
+              {c.points > 0 ? "+" : ""}
+              {c.points}
+            </span>
+          </div>
+          <p className="mt-0.5 text-muted-foreground">{c.description}</p>
+          {c.ring_ids.length > 0 && (
+            <p className="mt-0.5 font-mono text-[10px] text-muted-foreground">{c.ring_ids.join(", ")}</p>
+          )}
+          {c.ratio !== undefined && (
+            <p className="mt-0.5 font-mono text-[10px] text-muted-foreground">ratio {c.ratio}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SuspiciousAccountsTable({ accounts, accountHref }: SuspiciousAccountsTableProps) {
+  const router = useRouter();
+
   if (accounts.length === 0) {
     return (
       <div className="rounded-lg border border-border bg-card p-8 text-center">
@@ -38,21 +71,46 @@ export function SuspiciousAccountsTable({ accounts }: SuspiciousAccountsTablePro
               <TableHead className="text-muted-foreground font-medium">Account ID</TableHead>
               <TableHead className="text-muted-foreground font-medium text-right">Suspicion Score</TableHead>
               <TableHead className="text-muted-foreground font-medium">Detected Patterns</TableHead>
-              <TableHead className="text-muted-foreground font-medium">Ring ID</TableHead>
+              <TableHead className="text-muted-foreground font-medium">Rings</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {accounts.slice(0, 50).map((account) => (
-              <TableRow key={account.account_id} className="border-border hover:bg-secondary/50">
-                <TableCell className="font-mono text-sm text-foreground">{account.account_id}</TableCell>
-                <TableCell className="text-right">
-                  <span
-                    className={`inline-flex items-center rounded-md px-2 py-0.5 text-xs font-bold font-mono ${getScoreColor(
-                      account.suspicion_score
-                    )}`}
-                  >
-                    {account.suspicion_score}
-                  </span>
+              <TableRow
+                key={account.account_id}
+                className={`border-border hover:bg-secondary/50 ${accountHref ? "cursor-pointer" : ""}`}
+                onClick={accountHref && (() => router.push(accountHref(account.account_id)))}
+              >
+                <TableCell className="font-mono text-sm text-foreground">
+                  {accountHref ? (
+                    <Link
+                      href={accountHref(account.account_id)}
+                      className="hover:underline"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      {account.account_id}
+                    </Link>
+                  ) : (
+                    account.account_id
+                  )}
+                </TableCell>
+                <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button
+                        type="button"
+                        className={`inline-flex items-center rounded-md px-2 py-0.5 text-xs font-bold font-mono ${getScoreColor(
+                          account.suspicion_score
+                        )}`}
+                        aria-label={`Show score breakdown for ${account.account_id}`}
+                      >
+                        {account.suspicion_score}
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-80">
+                      <ScoreBreakdown contributions={account.score_breakdown} />
+                    </PopoverContent>
+                  </Popover>
                 </TableCell>
                 <TableCell>
                   <div className="flex flex-wrap gap-1">
@@ -66,7 +124,23 @@ export function SuspiciousAccountsTable({ accounts }: SuspiciousAccountsTablePro
                     ))}
                   </div>
                 </TableCell>
-                <TableCell className="font-mono text-xs text-muted-foreground">{account.ring_id}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {account.ring_ids.map((ringId) => (
+                      <span
+                        key={ringId}
+                        className={`inline-block rounded px-1.5 py-0.5 text-[10px] font-mono ${
+                          ringId === account.ring_id
+                            ? "bg-primary/15 text-primary"
+                            : "bg-secondary text-muted-foreground"
+                        }`}
+                      >
+                        {ringId}
+                        <span className="ml-1 opacity-70">{account.ring_roles[ringId]}</span>
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ColumnMapping } from "@/lib/column-mapping";
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+const STORAGE_KEY = "forensicgraph.mapping-profiles";
+
+function readProfiles(): MappingProfile[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MappingProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Named column mappings kept in localStorage for reuse across uploads
+export function useMappingProfiles() {
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+
+  useEffect(() => {
+    setProfiles(readProfiles());
+  }, []);
+
+  const persist = useCallback((next: MappingProfile[]) => {
+    setProfiles(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage full or disabled: keep the profiles for this session only
+    }
+  }, []);
+
+  const saveProfile = useCallback(
+    (name: string, mapping: ColumnMapping) => {
+      persist([...readProfiles().filter(p => p.name !== name), { name, mapping }]);
+    },
+    [persist]
+  );
+
+  const deleteProfile = useCallback(
+    (name: string) => {
+      persist(readProfiles().filter(p => p.name !== name));
+    },
+    [persist]
+  );
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,104 @@
+// =====================================================
+// Account Detail
+// Everything an analysis result says about one account: its node stats,
+// the transactions in and out, counterparties ranked by volume, the
+// rings it belongs to and its score breakdown
+// =====================================================
+import type {
+  AnalysisResult,
+  GraphEdge,
+  GraphNode,
+  MemberRole,
+  ScoreContribution,
+} from "@/lib/graph-engine";
+
+export interface Counterparty {
+  account_id: string;
+  sent: number; // from the account to the counterparty
+  received: number; // from the counterparty to the account
+  volume: number; // sent + received
+  transaction_count: number;
+  suspicious: boolean;
+}
+
+export interface AccountRingMembership {
+  ring_id: string;
+  pattern_type: string;
+  risk_score: number;
+  role: MemberRole;
+  member_count: number;
+  primary: boolean; // the ring that flags the account with the highest risk
+}
+
+export interface AccountDetail {
+  node: GraphNode;
+  score_breakdown: ScoreContribution[]; // empty unless the account is suspicious
+  rings: AccountRingMembership[]; // by descending ring risk
+  // In input order; a self-transfer is listed in both
+  incoming: GraphEdge[];
+  outgoing: GraphEdge[];
+  counterparties: Counterparty[]; // by descending volume
+}
+
+// Undefined when the account is not in the result
+export function buildAccountDetail(result: AnalysisResult, accountId: string): AccountDetail | undefined {
+  const node = result.nodes.find(n => n.id === accountId);
+  if (!node) return undefined;
+
+  const suspicious = result.suspicious_accounts.find(a => a.account_id === accountId);
+  const suspiciousIds = new Set(result.suspicious_accounts.map(a => a.account_id));
+
+  const incoming: GraphEdge[] = [];
+  const outgoing: GraphEdge[] = [];
+  const counterparties = new Map<string, Counterparty>();
+  const counterparty = (id: string) => {
+    let entry = counterparties.get(id);
+    if (!entry) {
+      entry = { account_id: id, sent: 0, received: 0, volume: 0, transaction_count: 0, suspicious: suspiciousIds.has(id) };
+      counterparties.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const edge of result.edges) {
+    if (edge.source === accountId) {
+      outgoing.push(edge);
+      const entry = counterparty(edge.target);
+      entry.sent += edge.amount;
+      entry.volume += edge.amount;
+      entry.transaction_count++;
+    }
+    if (edge.target === accountId) {
+      incoming.push(edge);
+      const entry = counterparty(edge.source);
+      entry.received += edge.amount;
+      entry.volume += edge.amount;
+      if (edge.source !== accountId) entry.transaction_count++;
+    }
+  }
+
+  const ringsById = new Map(result.fraud_rings.map(ring => [ring.ring_id, ring]));
+  const rings = node.ring_ids.flatMap(ringId => {
+    const ring = ringsById.get(ringId);
+    if (!ring) return [];
+    return [
+      {
+        ring_id: ring.ring_id,
+        pattern_type: ring.pattern_type,
+        risk_score: ring.risk_score,
+        role: ring.member_roles[accountId],
+        member_count: ring.member_accounts.length,
+        primary: suspicious?.ring_id === ring.ring_id,
+      },
+    ];
+  });
+
+  return {
+    node,
+    score_breakdown: suspicious?.score_breakdown ?? [],
+    rings,
+    incoming,
+    outgoing,
+    counterparties: Array.from(counterparties.values()).sort((a, b) => b.volume - a.volume),
+  };
+}
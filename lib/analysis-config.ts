@@ -0,0 +1,132 @@
+// =====================================================
+// Analysis Config Validation
+// Validates user-supplied config (e.g. the `config` field of
+// POST /api/analyze) before it reaches analyzeTransactions
+// =====================================================
+import { z } from "zod";
+import { STRUCTURING_JURISDICTIONS, resolveAnalysisConfig, type AnalysisConfigInput } from "@/lib/graph-engine";
+import { TIMESTAMP_FORMATS, isValidTimeZone } from "@/lib/timestamps";
+
+const positive = z.number().finite().positive();
+const nonNegative = z.number().finite().nonnegative();
+const count = z.number().int().positive();
+const percent = z.number().finite().min(0).max(100);
+const policy = z.enum(["reject", "drop", "flag"]);
+
+const analysisConfigSchema = z
+  .object({
+    cycles: z
+      .object({
+        // Upper bound keeps cycle enumeration tractable on dense graphs
+        minLength: z.number().int().min(2).max(8),
+        maxLength: z.number().int().min(2).max(8),
+        temporal: z.boolean(),
+        temporalWindowMs: positive,
+      })
+      .partial()
+      .strict(),
+    smurfing: z
+      .object({
+        windowMs: positive,
+        minConnections: z.number().int().min(2),
+      })
+      .partial()
+      .strict(),
+    shellNetworks: z
+      .object({
+        minDegree: count,
+        maxDegree: count,
+      })
+      .partial()
+      .strict(),
+    structuring: z
+      .object({
+        // A preset's threshold and band, unless given explicitly
+        jurisdiction: z.enum(STRUCTURING_JURISDICTIONS).nullable(),
+        threshold: positive,
+        bandPct: z.number().finite().gt(0).max(100),
+        minOccurrences: count,
+        windowMs: positive,
+      })
+      .partial()
+      .strict(),
+    passThrough: z
+      .object({
+        minForwardedPct: percent,
+        minInflows: count,
+      })
+      .partial()
+      .strict(),
+    scatterGather: z
+      .object({
+        minIntermediaries: count,
+        maxGatherDelayMs: positive,
+      })
+      .partial()
+      .strict(),
+    scoring: z
+      .object({
+        cycle: nonNegative,
+        multipleCycleBonus: nonNegative,
+        maxMultipleCycleBonuses: z.number().int().nonnegative(),
+        fanIn: nonNegative,
+        fanOut: nonNegative,
+        shellNetwork: nonNegative,
+        structuring: nonNegative,
+        rapidPassThrough: nonNegative,
+        scatterGather: nonNegative,
+        temporal: nonNegative,
+        flowRatio: nonNegative,
+        flowRatioThreshold: z.number().finite().min(0).max(1),
+      })
+      .partial()
+      .strict(),
+    dataQuality: z
+      .object({
+        duplicateTransactionId: policy,
+        crossFileDuplicate: policy,
+        selfTransfer: policy,
+        nonPositiveAmount: policy,
+        invalidTimestamp: policy,
+      })
+      .partial()
+      .strict(),
+    timestamps: z
+      .object({
+        format: z.enum(TIMESTAMP_FORMATS),
+        timeZone: z.string().refine(isValidTimeZone, "Unknown IANA time zone"),
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+export type ConfigValidationResult =
+  | { success: true; config: AnalysisConfigInput }
+  | { success: false; errors: string[] };
+
+export function validateAnalysisConfig(raw: unknown): ConfigValidationResult {
+  const parsed = analysisConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  // Range checks need the defaults filled in for the side not supplied
+  const resolved = resolveAnalysisConfig(parsed.data);
+  const errors: string[] = [];
+  if (resolved.cycles.minLength > resolved.cycles.maxLength) {
+    errors.push("cycles: minLength must not exceed maxLength");
+  }
+  if (resolved.shellNetworks.minDegree > resolved.shellNetworks.maxDegree) {
+    errors.push("shellNetworks: minDegree must not exceed maxDegree");
+  }
+  if (errors.length > 0) return { success: false, errors };
+
+  return { success: true, config: parsed.data };
+}
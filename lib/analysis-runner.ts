@@ -0,0 +1,339 @@
+// =====================================================
+// Analysis Runner
+// Reads an analysis upload from a request (files, format, config, CSV
+// options) and runs ingest plus analysis on it, reporting progress.
+// Shared by POST /api/analyze and the jobs API.
+// =====================================================
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { NextRequest } from "next/server";
+import { analyzeTransactionsAsync, type AnalysisConfigInput, type AnalysisResult } from "@/lib/graph-engine";
+import { validateAnalysisConfig } from "@/lib/analysis-config";
+import { DataQualityError } from "@/lib/data-quality";
+import { csvOptionsFromFields, type CsvParseOptions } from "@/lib/csv-parser";
+import {
+  INPUT_FORMATS,
+  UploadTooLargeError,
+  compressionOf,
+  createUploadMeter,
+  inputFormatOfContentType,
+  isInputFormat,
+  maxUploadBytes,
+  parseUploadedFiles,
+  type AnalyzeStreamEvent,
+  type InputFormat,
+  type UploadedFile,
+} from "@/lib/ingest";
+import { multipartBoundary, readMultipart, type MultipartPart } from "@/lib/multipart";
+
+export interface AnalyzeInput {
+  files: UploadedFile[];
+  format: InputFormat | null; // null: detected per file
+  totalBytes: number | null;
+  config: AnalysisConfigInput;
+  csvOptions: CsvParseOptions;
+  // Removes the files a multipart upload was written to; runAnalysis
+  // calls it once it is done with them
+  cleanup?: () => Promise<void>;
+}
+
+// Machine-readable reason for an error outcome (see the v1 API)
+export type AnalyzeErrorCode =
+  | "missing_file"
+  | "invalid_format"
+  | "invalid_config"
+  | "invalid_csv_options"
+  | "unsupported_media_type"
+  | "upload_too_large"
+  | "invalid_input"
+  | "no_valid_transactions"
+  | "data_quality_rejected"
+  | "internal_error";
+
+export interface AnalyzeErrorOutcome {
+  status: 400 | 413 | 415 | 422 | 500;
+  body: Record<string, unknown>;
+  code: AnalyzeErrorCode;
+}
+
+// The result (with the rejected rows and source files), or an error;
+// checking for status 200 narrows the body to the result
+export type AnalyzeOutcome = { status: 200; body: AnalysisResult } | AnalyzeErrorOutcome;
+
+// Progress events are throttled to whole percent steps (or 1 MB steps
+// when the size is unknown)
+const PROGRESS_STEP_BYTES = 1024 * 1024;
+
+// Multipart fields other than files are read into memory, up to this size each
+const MAX_FIELD_BYTES = 1024 * 1024;
+
+function parseConfig(rawConfig: string | null): { config: AnalysisConfigInput } | AnalyzeErrorOutcome {
+  if (rawConfig === null) return { config: {} };
+
+  let configJson: unknown;
+  try {
+    configJson = JSON.parse(rawConfig);
+  } catch {
+    return { status: 400, code: "invalid_config", body: { error: "Config field is not valid JSON" } };
+  }
+
+  const validation = validateAnalysisConfig(configJson);
+  if (!validation.success) {
+    return { status: 400, code: "invalid_config", body: { error: "Invalid config", details: validation.errors } };
+  }
+  return { config: validation.config };
+}
+
+const removeDirectory = (directory: string) => rm(directory, { recursive: true, force: true }).catch(() => {});
+
+async function readField(part: MultipartPart): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  for await (const chunk of part.body) {
+    bytes += chunk.byteLength;
+    if (bytes > MAX_FIELD_BYTES) throw new UploadTooLargeError(MAX_FIELD_BYTES, `Form field "${part.name}"`);
+    text += decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Writes each `file` part to `directory` as it arrives and reads the other
+// fields; the caller removes the directory when this fails
+async function readMultipartInput(
+  request: NextRequest,
+  limit: number,
+  directory: string
+): Promise<AnalyzeInput | AnalyzeErrorOutcome> {
+  const boundary = multipartBoundary(request.headers.get("content-type") ?? "");
+  const malformed: AnalyzeErrorOutcome = {
+    status: 400,
+    code: "invalid_input",
+    body: { error: "Malformed multipart body" },
+  };
+  if (!boundary || !request.body) return malformed;
+
+  const spooled: { name: string; contentType?: string; path: string; size: number }[] = [];
+  const fields = new URLSearchParams();
+  try {
+    for await (const part of readMultipart(createUploadMeter(limit)(request.body), boundary)) {
+      if (part.name === "file" && part.filename !== undefined) {
+        const path = join(directory, `upload-${spooled.length}`);
+        await pipeline(part.body, createWriteStream(path));
+        spooled.push({ name: part.filename, contentType: part.contentType, path, size: (await stat(path)).size });
+      } else {
+        fields.append(part.name, await readField(part));
+      }
+    }
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return { status: 413, code: "upload_too_large", body: { error: error.message } };
+    }
+    return malformed;
+  }
+
+  if (spooled.length === 0) {
+    return { status: 400, code: "missing_file", body: { error: "No file provided" } };
+  }
+
+  // Optional detection config as a JSON field (string or .json file)
+  const parsedConfig = parseConfig(fields.get("config"));
+  if ("status" in parsedConfig) return parsedConfig;
+
+  // Explicit format for every file, else detected per file
+  const formatField = fields.get("format");
+  if (formatField !== null && !isInputFormat(formatField)) {
+    return {
+      status: 400,
+      code: "invalid_format",
+      body: { error: `Unsupported format, expected one of: ${INPUT_FORMATS.join(", ")}` },
+    };
+  }
+
+  // Optional CSV dialect and column mapping for CSV files; auto-detected otherwise
+  const csvOptions = csvOptionsFromFields(fields);
+  if ("error" in csvOptions) return { status: 400, code: "invalid_csv_options", body: { error: csvOptions.error } };
+
+  const files: UploadedFile[] = spooled.map(file => ({
+    name: file.name,
+    contentType: file.contentType,
+    stream: Readable.toWeb(createReadStream(file.path)) as ReadableStream<Uint8Array>,
+  }));
+  return {
+    files,
+    format: formatField,
+    totalBytes: spooled.reduce((sum, file) => sum + file.size, 0),
+    config: parsedConfig.config,
+    csvOptions: csvOptions.options,
+    cleanup: async () => {
+      // Files left unread still hold an open descriptor
+      await Promise.all(files.map(file => (file.stream.locked ? undefined : file.stream.cancel().catch(() => {}))));
+      await removeDirectory(directory);
+    },
+  };
+}
+
+// Reads everything but the transactions themselves. Multipart uploads are
+// metered against the upload limit as they arrive, since Content-Length
+// may be absent, and their files are written to a temporary directory
+// that `cleanup` removes; raw bodies are left as a stream.
+export async function readAnalyzeInput(request: NextRequest): Promise<AnalyzeInput | AnalyzeErrorOutcome> {
+  const contentType = (request.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  const contentLength = Number(request.headers.get("content-length"));
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null;
+  const limit = maxUploadBytes();
+
+  if (totalBytes !== null && totalBytes > limit) {
+    return { status: 413, code: "upload_too_large", body: { error: new UploadTooLargeError(limit).message } };
+  }
+
+  if (contentType === "multipart/form-data") {
+    const directory = await mkdtemp(join(tmpdir(), "forensicgraph-upload-"));
+    let input: AnalyzeInput | AnalyzeErrorOutcome;
+    try {
+      input = await readMultipartInput(request, limit, directory);
+    } catch (error) {
+      await removeDirectory(directory);
+      throw error;
+    }
+    if ("status" in input) await removeDirectory(directory);
+    return input;
+  }
+
+  // Raw body: format from the `format` parameter or the content type
+  // (archives: from the names inside), options from the query string
+  const params = request.nextUrl.searchParams;
+  const name = params.get("filename") ?? undefined;
+  const formatParam = params.get("format");
+  if (formatParam !== null && !isInputFormat(formatParam)) {
+    return {
+      status: 400,
+      code: "invalid_format",
+      body: { error: `Unsupported format, expected one of: ${INPUT_FORMATS.join(", ")}` },
+    };
+  }
+  const format = formatParam ?? inputFormatOfContentType(contentType);
+  if (!format && !compressionOf({ name, contentType })) {
+    return {
+      status: 415,
+      code: "unsupported_media_type",
+      body: {
+        error: "Unsupported content type, expected multipart/form-data, JSON, NDJSON, XML, SWIFT FIN, CSV, gzip or ZIP",
+      },
+    };
+  }
+  if (!request.body) {
+    return { status: 400, code: "missing_file", body: { error: "Empty request body" } };
+  }
+
+  const parsedConfig = parseConfig(params.get("config"));
+  if ("status" in parsedConfig) return parsedConfig;
+
+  const csvOptions = csvOptionsFromFields(params);
+  if ("error" in csvOptions) return { status: 400, code: "invalid_csv_options", body: { error: csvOptions.error } };
+
+  return {
+    files: [{ name, contentType, stream: request.body }],
+    format,
+    totalBytes,
+    config: parsedConfig.config,
+    csvOptions: csvOptions.options,
+  };
+}
+
+// Reports parse progress by bytes and a stage event for parsing and for
+// every analysis stage. An aborted signal stops parsing at the next chunk
+// or the analysis at its next pause; the outcome is then an error.
+// Input that cannot be parsed is a 400, not a server error. The input's
+// files are cleaned up afterwards.
+export async function runAnalysis(
+  input: AnalyzeInput,
+  onProgress: (event: AnalyzeStreamEvent) => void = () => {},
+  signal?: AbortSignal
+): Promise<AnalyzeOutcome> {
+  try {
+    return await analyze(input, onProgress, signal);
+  } finally {
+    await input.cleanup?.();
+  }
+}
+
+async function analyze(
+  input: AnalyzeInput,
+  onProgress: (event: AnalyzeStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<AnalyzeOutcome> {
+  try {
+    const parseStart = performance.now();
+    const parseEvent = (status: "started" | "completed", count: number): AnalyzeStreamEvent => ({
+      type: "stage",
+      stage: "parse",
+      status,
+      count,
+      elapsed_ms: Math.round(performance.now() - parseStart),
+    });
+    onProgress(parseEvent("started", 0));
+
+    let reported = 0;
+    const step = input.totalBytes ? Math.max(input.totalBytes / 100, PROGRESS_STEP_BYTES) : PROGRESS_STEP_BYTES;
+    const meter = createUploadMeter(maxUploadBytes(), bytes => {
+      signal?.throwIfAborted();
+      if (bytes - reported < step) return;
+      reported = bytes;
+      onProgress({ type: "progress", stage: "parse", bytes, total: input.totalBytes });
+    });
+
+    let parsed: Awaited<ReturnType<typeof parseUploadedFiles>>;
+    try {
+      parsed = await parseUploadedFiles(
+        input.files.map(file => ({ ...file, stream: meter(file.stream) })),
+        input.format,
+        input.csvOptions
+      );
+    } catch (error) {
+      if (error instanceof UploadTooLargeError || signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : "Unreadable input";
+      return { status: 400, code: "invalid_input", body: { error: message } };
+    }
+    const { transactions, rejections, rejectedCount, files } = parsed;
+    onProgress(parseEvent("completed", transactions.length));
+
+    if (transactions.length === 0) {
+      return {
+        status: 400,
+        code: "no_valid_transactions",
+        body: {
+          error: "No valid transactions found in input",
+          rejected_rows: rejections,
+          rejected_row_count: rejectedCount,
+          source_files: files,
+        },
+      };
+    }
+
+    signal?.throwIfAborted();
+    onProgress({ type: "progress", stage: "analyze", transactions: transactions.length });
+    const result = await analyzeTransactionsAsync(transactions, input.config, {
+      onStage: event => onProgress({ type: "stage", ...event }),
+      signal,
+    });
+
+    return {
+      status: 200,
+      body: { ...result, rejected_rows: rejections, rejected_row_count: rejectedCount, source_files: files },
+    };
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return { status: 413, code: "upload_too_large", body: { error: error.message } };
+    }
+    if (error instanceof DataQualityError) {
+      return { status: 422, code: "data_quality_rejected", body: { error: error.message, data_quality: error.report } };
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { status: 500, code: "internal_error", body: { error: message } };
+  }
+}
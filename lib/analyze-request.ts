@@ -0,0 +1,193 @@
+// =====================================================
+// Analyze Request
+// Browser side of the jobs API: uploads a single file as the raw request
+// body (several files as a multipart form) to POST /api/jobs, then follows
+// the job's event stream until its result is ready. Upload progress comes
+// from the browser, parse progress and analysis stages from the job.
+// XMLHttpRequest is used because fetch cannot report upload progress.
+// =====================================================
+import type { ColumnMapping } from "@/lib/column-mapping";
+import type { TimestampOptions } from "@/lib/timestamps";
+import {
+  COMPRESSED_CONTENT_TYPES,
+  INPUT_CONTENT_TYPES,
+  compressionOf,
+  type InputFormat,
+} from "@/lib/ingest";
+import type { AnalysisConfigInput, AnalysisStageEvent, StructuringJurisdiction } from "@/lib/graph-engine";
+import type { JobProgress, JobView } from "@/lib/jobs";
+
+export type AnalyzeStage = "upload" | "queued" | "parse" | "analyze";
+
+export interface AnalyzeProgress {
+  stage: AnalyzeStage;
+  fraction: number | null; // 0-1, or null when the total is unknown
+}
+
+export interface AnalyzeRequestOptions {
+  format: InputFormat | null; // null: detected per file by the server
+  mapping?: ColumnMapping;
+  timestamps?: TimestampOptions;
+  jurisdiction?: StructuringJurisdiction; // structuring thresholds to test against
+  onProgress?: (progress: AnalyzeProgress) => void;
+  signal?: AbortSignal; // aborts the upload
+}
+
+function buildRequest(
+  files: File[],
+  options: AnalyzeRequestOptions
+): { url: string; body: Blob | FormData; contentType?: string } {
+  const fields: [string, string][] = [];
+  if (options.format) fields.push(["format", options.format]);
+  if (options.mapping) fields.push(["mapping", JSON.stringify(options.mapping)]);
+  const config: AnalysisConfigInput = {
+    ...(options.timestamps && { timestamps: options.timestamps }),
+    ...(options.jurisdiction && { structuring: { jurisdiction: options.jurisdiction } }),
+  };
+  if (Object.keys(config).length > 0) fields.push(["config", JSON.stringify(config)]);
+
+  if (files.length > 1) {
+    const formData = new FormData();
+    for (const file of files) formData.append("file", file);
+    for (const [name, value] of fields) formData.append(name, value);
+    return { url: "/api/jobs", body: formData };
+  }
+
+  const [file] = files;
+  const params = new URLSearchParams([["filename", file.name], ...fields]);
+  const compression = compressionOf({ name: file.name });
+  const contentType = compression
+    ? COMPRESSED_CONTENT_TYPES[compression][0]
+    : INPUT_CONTENT_TYPES[options.format ?? "csv"][0];
+  return { url: `/api/jobs?${params}`, body: file, contentType };
+}
+
+async function errorMessageOf(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Uploads the files and resolves with the queued job
+export function submitAnalysisJob(files: File[], options: AnalyzeRequestOptions): Promise<JobView> {
+  const request = buildRequest(files, options);
+  const onProgress = options.onProgress ?? (() => {});
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", request.url);
+    if (request.contentType) xhr.setRequestHeader("Content-Type", request.contentType);
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (e) => {
+      onProgress({ stage: "upload", fraction: e.lengthComputable ? e.loaded / e.total : null });
+    };
+    xhr.onload = () => {
+      if (xhr.status === 202) {
+        resolve(xhr.response as JobView);
+      } else {
+        reject(new Error(xhr.response?.error ?? `Upload failed (HTTP ${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed; check your connection and try again"));
+    xhr.onabort = () => reject(new DOMException("Upload aborted", "AbortError"));
+
+    options.signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(request.body);
+  });
+}
+
+export interface FollowJobOptions {
+  onProgress?: (progress: AnalyzeProgress) => void;
+  // Every analysis stage seen so far, latest event per stage, in order
+  onStages?: (stages: AnalysisStageEvent[]) => void;
+  signal?: AbortSignal;
+}
+
+function progressOf(job: JobView): AnalyzeProgress {
+  if (job.status === "queued") return { stage: "queued", fraction: null };
+  if (job.progress?.stage === "analyze") return { stage: "analyze", fraction: null };
+  const { bytes, total } = job.progress ?? { bytes: 0, total: null };
+  return { stage: "parse", fraction: total ? bytes / total : null };
+}
+
+// Follows the job's event stream until it finishes and resolves with its
+// result. Rejects with the job's error if it failed, and with an
+// AbortError if the signal aborts (the job itself keeps running; see
+// cancelAnalysisJob). Dropped connections are retried by the browser.
+export function followAnalysisJob(jobId: string, options: FollowJobOptions = {}): Promise<unknown> {
+  const { onProgress = () => {}, onStages = () => {}, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let job: JobView | null = null;
+    const stages = new Map<string, AnalysisStageEvent>();
+
+    const close = () => {
+      source.close();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      close();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    source.addEventListener("status", (e) => {
+      job = JSON.parse(e.data) as JobView;
+      stages.clear();
+      for (const stage of job.stages) stages.set(stage.stage, stage);
+      onStages(Array.from(stages.values()));
+
+      switch (job.status) {
+        case "queued":
+        case "running":
+          onProgress(progressOf(job));
+          break;
+        case "succeeded":
+          close();
+          fetch(`/api/jobs/${jobId}/result`, { signal })
+            .then(async (result) => {
+              if (!result.ok) throw new Error(await errorMessageOf(result, "Analysis failed"));
+              return result.json();
+            })
+            .then(resolve, reject);
+          break;
+        case "failed":
+          close();
+          reject(new Error(String(job.error?.body.error ?? "Analysis failed")));
+          break;
+        case "cancelled":
+          close();
+          reject(new Error("Analysis was cancelled"));
+          break;
+      }
+    });
+
+    source.addEventListener("progress", (e) => {
+      if (!job) return;
+      job = { ...job, progress: JSON.parse(e.data) as JobProgress };
+      onProgress(progressOf(job));
+    });
+
+    source.addEventListener("stage", (e) => {
+      const stage = JSON.parse(e.data) as AnalysisStageEvent;
+      stages.set(stage.stage, stage);
+      onStages(Array.from(stages.values()));
+    });
+
+    // The browser reconnects by itself unless the server refused the stream
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      close();
+      reject(new Error("Analysis job not found"));
+    };
+  });
+}
+
+export async function cancelAnalysisJob(jobId: string): Promise<void> {
+  await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+}
@@ -0,0 +1,43 @@
+// =====================================================
+// API v1
+// Error envelope shared by the /api/v1 routes. Every error response is
+// { error: { code, message, details? } } with a stable, machine-readable
+// code; the response types are documented in lib/openapi.ts.
+// =====================================================
+import { NextResponse } from "next/server";
+import type { AnalyzeErrorCode, AnalyzeOutcome } from "@/lib/analysis-runner";
+
+export const API_V1_BASE = "/api/v1";
+
+export type ApiErrorCode = AnalyzeErrorCode | "not_found" | "job_not_finished";
+
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: unknown;
+  };
+}
+
+export function apiError(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+  const body: ApiError = { error: { code, message, ...(details !== undefined && { details }) } };
+  return NextResponse.json(body, { status });
+}
+
+// The body of a successful outcome as it is; an error outcome as the
+// envelope, with the rest of its body (validation errors, data-quality
+// report, rejected rows) as details
+export function outcomeResponse(outcome: AnalyzeOutcome) {
+  if (outcome.status === 200) return NextResponse.json(outcome.body, { status: outcome.status });
+  const { error, details, ...rest } = outcome.body;
+  return apiError(
+    outcome.status,
+    outcome.code,
+    typeof error === "string" ? error : "Unknown error",
+    details ?? (Object.keys(rest).length > 0 ? rest : undefined)
+  );
+}
+
+export function internalError(error: unknown) {
+  return apiError(500, "internal_error", error instanceof Error ? error.message : "Unknown error");
+}
@@ -0,0 +1,90 @@
+// =====================================================
+// Column Mapping
+// Maps source file headers (e.g. core banking exports using txn_ref,
+// debtor_account, creditor_account, value, booking_date) onto the
+// Transaction fields the engine expects
+// =====================================================
+
+export const TRANSACTION_FIELDS = ["transaction_id", "sender_id", "receiver_id", "amount", "timestamp"] as const;
+export type TransactionField = (typeof TRANSACTION_FIELDS)[number];
+
+// Transaction field -> source header name
+export type ColumnMapping = Record<TransactionField, string>;
+
+// Known header spellings per field, in normalized form (see normalizeHeader)
+export const HEADER_ALIASES: Record<TransactionField, string[]> = {
+  transaction_id: [
+    "transaction_id", "txn_id", "tx_id", "txn_ref", "transaction_ref", "transaction_reference",
+    "reference", "ref", "end_to_end_id", "payment_id", "id",
+  ],
+  sender_id: [
+    "sender_id", "sender", "sender_account", "debtor_account", "debtor_iban", "debtor", "payer",
+    "payer_account", "from_account", "from", "source_account", "originator", "originator_account",
+  ],
+  receiver_id: [
+    "receiver_id", "receiver", "receiver_account", "creditor_account", "creditor_iban", "creditor",
+    "payee", "payee_account", "to_account", "to", "beneficiary", "beneficiary_account",
+    "destination_account",
+  ],
+  amount: ["amount", "value", "amt", "transaction_amount", "instructed_amount", "sum"],
+  timestamp: [
+    "timestamp", "booking_date", "value_date", "transaction_date", "date", "datetime", "date_time",
+    "created_at", "executed_at", "time",
+  ],
+};
+
+// Lowercase and collapse separators so "Debtor Account" == "debtor-account"
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Suggest a source header for every field; fields without a match are
+// left out. Each header is used at most once, earlier aliases win.
+export function suggestColumnMapping(headers: string[]): Partial<ColumnMapping> {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: Partial<ColumnMapping> = {};
+
+  for (const field of TRANSACTION_FIELDS) {
+    for (const alias of HEADER_ALIASES[field]) {
+      const idx = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (idx !== -1) {
+        mapping[field] = headers[idx];
+        used.add(idx);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+// Column index per field, or the list of fields that cannot be resolved
+export function resolveColumnIndexes(
+  headers: string[],
+  mapping: Partial<ColumnMapping>
+): { indexes: Record<TransactionField, number> } | { missing: TransactionField[] } {
+  const normalized = headers.map(normalizeHeader);
+  const indexes = {} as Record<TransactionField, number>;
+  const missing: TransactionField[] = [];
+
+  for (const field of TRANSACTION_FIELDS) {
+    const source = mapping[field];
+    const idx = source === undefined ? -1 : normalized.indexOf(normalizeHeader(source));
+    if (idx === -1) missing.push(field);
+    else indexes[field] = idx;
+  }
+
+  return missing.length > 0 ? { missing } : { indexes };
+}
+
+export function isColumnMapping(value: unknown): value is ColumnMapping {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return TRANSACTION_FIELDS.every(field => typeof record[field] === "string");
+}
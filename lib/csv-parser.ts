@@ -0,0 +1,367 @@
+// =====================================================
+// Streaming CSV Parser (RFC 4180)
+// Handles quoted fields (embedded delimiters, quotes and line breaks),
+// CRLF/LF/CR line endings, byte-order marks, non-UTF-8 encodings and
+// comma/semicolon/tab/pipe delimiters with auto-detection.
+// Rows that cannot become a Transaction are reported, not dropped.
+// =====================================================
+import type { RowRejection, TransactionInput } from "@/lib/graph-engine";
+import {
+  TRANSACTION_FIELDS,
+  isColumnMapping,
+  resolveColumnIndexes,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type TransactionField,
+} from "@/lib/column-mapping";
+import { createTransactionStore } from "@/lib/transaction-store";
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter; // auto-detected from the header when omitted
+  encoding?: string; // any TextDecoder label; a BOM takes precedence
+  mapping?: Partial<ColumnMapping>; // suggested from header aliases when omitted
+}
+
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  encoding: string;
+  suggestedMapping: Partial<ColumnMapping>;
+}
+
+export interface CsvParseResult {
+  transactions: TransactionInput[];
+  rejections: RowRejection[]; // capped at MAX_REPORTED_REJECTIONS
+  rejectedCount: number;
+  delimiter: CsvDelimiter;
+  encoding: string;
+}
+
+export const MAX_REPORTED_REJECTIONS = 1000;
+
+// How much of a file the column-mapping preview reads: plenty for the
+// header and first rows, so clients send only this slice of the file
+export const CSV_PREVIEW_BYTES = 64 * 1024;
+
+// Delimiter detection only needs the header line; cap how much we buffer
+const MAX_SNIFF_CHARS = 64 * 1024;
+
+interface CsvRecord {
+  fields: string[];
+  line: number; // physical line the record starts on (1-based)
+  error?: string;
+}
+
+// Incremental RFC 4180 tokenizer: feed text in arbitrary chunks,
+// records are emitted as soon as they are complete
+function createCsvTokenizer(delimiter: string, onRecord: (record: CsvRecord) => void) {
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let closingQuote = false; // saw `"` inside quotes: escaped quote or end of field
+  let prevCR = false; // previous char was CR (CRLF counts as one line break)
+  let recordStarted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  function endRecord() {
+    fields.push(field);
+    onRecord({ fields, line: recordLine });
+    fields = [];
+    field = "";
+    recordStarted = false;
+  }
+
+  function push(chunk: string) {
+    for (const c of chunk) {
+
+      const afterCR = prevCR;
+      prevCR = c === "\r";
+      // LF of a CRLF that already ended the record
+      if (afterCR && c === "\n" && !inQuotes) continue;
+
+      if (!recordStarted) {
+        recordStarted = true;
+        recordLine = line;
+      }
+
+      if (inQuotes) {
+        if (closingQuote) {
+          closingQuote = false;
+          if (c === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // Fall through: the quote closed the field
+        } else {
+          if (c === '"') {
+            closingQuote = true;
+          } else {
+            field += c;
+            if (c === "\r" || (c === "\n" && !afterCR)) line++;
+          }
+          continue;
+        }
+      }
+
+      if (c === '"' && field === "") {
+        inQuotes = true;
+      } else if (c === delimiter) {
+        fields.push(field);
+        field = "";
+      } else if (c === "\r" || c === "\n") {
+        endRecord();
+        line++;
+      } else {
+        field += c;
+      }
+    }
+  }
+
+  function end() {
+    if (inQuotes && !closingQuote) {
+      fields.push(field);
+      onRecord({ fields, line: recordLine, error: "Unterminated quoted field" });
+      return;
+    }
+    if (recordStarted) endRecord();
+  }
+
+  return { push, end };
+}
+
+// Pick the candidate delimiter that splits the header into the most fields
+function detectDelimiter(headerLine: string): CsvDelimiter {
+  let best: CsvDelimiter = ",";
+  let bestCount = 0;
+  for (const candidate of CSV_DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (const c of headerLine) {
+      if (c === '"') inQuotes = !inQuotes;
+      else if (c === candidate && !inQuotes) count++;
+    }
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// A byte-order mark overrides the requested encoding
+export function detectEncoding(firstBytes: Uint8Array, fallback: string): string {
+  if (firstBytes[0] === 0xef && firstBytes[1] === 0xbb && firstBytes[2] === 0xbf) return "utf-8";
+  if (firstBytes[0] === 0xff && firstBytes[1] === 0xfe) return "utf-16le";
+  if (firstBytes[0] === 0xfe && firstBytes[1] === 0xff) return "utf-16be";
+  return fallback;
+}
+
+// Decodes the byte stream and emits CSV records as they complete.
+// onRecord can return false to stop reading early.
+async function readCsvRecords(
+  source: ReadableStream<Uint8Array>,
+  options: CsvParseOptions,
+  onRecord: (record: CsvRecord) => boolean | void
+): Promise<{ delimiter: CsvDelimiter; encoding: string }> {
+  const reader = source.getReader();
+  let decoder: TextDecoder | null = null;
+  let encoding = options.encoding || "utf-8";
+  let tokenizer: ReturnType<typeof createCsvTokenizer> | null = null;
+  let delimiter: CsvDelimiter = options.delimiter || ",";
+  let sniffBuffer = "";
+  let stopped = false;
+
+  function handleRecord(record: CsvRecord) {
+    if (!stopped && onRecord(record) === false) stopped = true;
+  }
+
+  function feed(text: string, final: boolean) {
+    if (tokenizer) {
+      tokenizer.push(text);
+      return;
+    }
+    // Buffer until the header line is complete, then pick the delimiter
+    sniffBuffer += text;
+    const newline = sniffBuffer.search(/[\r\n]/);
+    if (newline === -1 && sniffBuffer.length < MAX_SNIFF_CHARS && !final) return;
+
+    const headerLine = newline === -1 ? sniffBuffer : sniffBuffer.slice(0, newline);
+    delimiter = options.delimiter || detectDelimiter(headerLine);
+    tokenizer = createCsvTokenizer(delimiter, handleRecord);
+    tokenizer.push(sniffBuffer);
+    sniffBuffer = "";
+  }
+
+  try {
+    while (!stopped) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!decoder) {
+        encoding = detectEncoding(value, encoding);
+        decoder = new TextDecoder(encoding);
+      }
+      feed(decoder.decode(value, { stream: true }), false);
+    }
+    if (stopped) {
+      await reader.cancel();
+    } else {
+      feed(decoder ? decoder.decode() : "", true);
+      tokenizer!.end();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { delimiter, encoding };
+}
+
+const isBlankRecord = (record: CsvRecord) =>
+  record.fields.length === 1 && record.fields[0].trim() === "";
+
+const cleanHeader = (header: string) => header.replace(/^\uFEFF/, "").trim();
+
+// Header, first rows and a suggested column mapping, for confirming
+// the mapping before the full file is analyzed
+export async function previewCsv(
+  source: ReadableStream<Uint8Array>,
+  options: CsvParseOptions = {},
+  maxRows = 10
+): Promise<CsvPreview> {
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+
+  const { delimiter, encoding } = await readCsvRecords(source, options, record => {
+    if (isBlankRecord(record)) return;
+    if (!headers) {
+      headers = record.fields.map(cleanHeader);
+      return maxRows > 0;
+    }
+    rows.push(record.fields.map(v => v.trim()));
+    return rows.length < maxRows;
+  });
+
+  if (!headers) throw new Error("CSV must have a header and at least one data row");
+  return { headers, rows, delimiter, encoding, suggestedMapping: suggestColumnMapping(headers) };
+}
+
+export async function parseTransactionCsv(
+  source: ReadableStream<Uint8Array>,
+  options: CsvParseOptions = {}
+): Promise<CsvParseResult> {
+  const store = createTransactionStore();
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  let colIdx: Record<TransactionField, number> | null = null;
+  let headerLength = 0;
+
+  function reject(line: number, reason: string) {
+    rejectedCount++;
+    if (rejections.length < MAX_REPORTED_REJECTIONS) rejections.push({ line, reason });
+  }
+
+  function handleRecord(record: CsvRecord) {
+    // Skip blank lines
+    if (isBlankRecord(record)) return;
+
+    if (!colIdx) {
+      const headers = record.fields.map(cleanHeader);
+      const resolved = resolveColumnIndexes(headers, options.mapping || suggestColumnMapping(headers));
+      if ("missing" in resolved) {
+        throw new Error(`Missing required column: ${resolved.missing.join(", ")}`);
+      }
+      colIdx = resolved.indexes;
+      headerLength = headers.length;
+      return;
+    }
+
+    if (record.error) {
+      reject(record.line, record.error);
+      return;
+    }
+    if (record.fields.length !== headerLength) {
+      reject(record.line, `Expected ${headerLength} fields, found ${record.fields.length}`);
+      return;
+    }
+
+    const values = record.fields.map(v => v.trim());
+
+    for (const col of TRANSACTION_FIELDS) {
+      if (values[colIdx[col]] === "") {
+        reject(record.line, `Missing value for ${col}`);
+        return;
+      }
+    }
+
+    const rawAmount = values[colIdx.amount];
+    const amount = Number(rawAmount);
+    if (!isFinite(amount)) {
+      reject(record.line, `Invalid amount: ${rawAmount}`);
+      return;
+    }
+
+    store.add({
+      transaction_id: values[colIdx.transaction_id],
+      sender_id: values[colIdx.sender_id],
+      receiver_id: values[colIdx.receiver_id],
+      amount,
+      timestamp: values[colIdx.timestamp],
+    });
+  }
+
+  const { delimiter, encoding } = await readCsvRecords(source, options, handleRecord);
+
+  if (!colIdx || store.size + rejectedCount === 0) {
+    throw new Error("CSV must have a header and at least one data row");
+  }
+
+  return { transactions: store.transactions, rejections, rejectedCount, delimiter, encoding };
+}
+
+// CSV options from multipart form fields or query parameters (delimiter,
+// encoding, mapping). Returns an error message for unsupported values.
+export function csvOptionsFromFields(
+  fields: FormData | URLSearchParams
+): { options: CsvParseOptions } | { error: string } {
+  const options: CsvParseOptions = {};
+
+  const delimiter = fields.get("delimiter");
+  if (delimiter !== null) {
+    if (!CSV_DELIMITERS.includes(delimiter as CsvDelimiter)) {
+      return { error: "Unsupported delimiter, expected one of: comma, semicolon, tab, pipe" };
+    }
+    options.delimiter = delimiter as CsvDelimiter;
+  }
+
+  const encoding = fields.get("encoding");
+  if (encoding !== null) {
+    try {
+      new TextDecoder(String(encoding));
+    } catch {
+      return { error: `Unsupported encoding: ${encoding}` };
+    }
+    options.encoding = String(encoding);
+  }
+
+  const mapping = fields.get("mapping");
+  if (mapping !== null) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(String(mapping));
+    } catch {
+      return { error: "Mapping field is not valid JSON" };
+    }
+    if (!isColumnMapping(parsed)) {
+      return { error: `Mapping must name a column for each of: ${TRANSACTION_FIELDS.join(", ")}` };
+    }
+    options.mapping = parsed;
+  }
+
+  return { options };
+}
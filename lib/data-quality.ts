@@ -0,0 +1,206 @@
+// =====================================================
+// Data Quality
+// Checks transactions before detection and applies a policy per
+// issue class: reject the upload, drop the offending rows, or keep
+// them and flag them in the report
+// =====================================================
+import type { Transaction } from "@/lib/graph-engine";
+import type { ResolvedTimestampFormat } from "@/lib/timestamps";
+
+export type DataQualityIssueType =
+  | "duplicate_transaction_id"
+  | "cross_file_duplicate"
+  | "self_transfer"
+  | "non_positive_amount"
+  | "invalid_timestamp";
+
+export type DataQualityPolicy = "reject" | "drop" | "flag";
+
+export type DataQualitySeverity = "error" | "warning";
+
+// Policy per issue class
+export interface DataQualityOptions {
+  duplicateTransactionId: DataQualityPolicy;
+  crossFileDuplicate: DataQualityPolicy;
+  selfTransfer: DataQualityPolicy;
+  nonPositiveAmount: DataQualityPolicy;
+  invalidTimestamp: DataQualityPolicy;
+}
+
+export const DEFAULT_DATA_QUALITY_OPTIONS: DataQualityOptions = {
+  duplicateTransactionId: "drop",
+  crossFileDuplicate: "drop",
+  selfTransfer: "drop",
+  nonPositiveAmount: "drop",
+  invalidTimestamp: "drop",
+};
+
+export interface DataQualityExample {
+  transaction_id: string;
+  value: string; // the offending value as found in the input
+}
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  severity: DataQualitySeverity;
+  policy: DataQualityPolicy;
+  description: string;
+  count: number;
+  examples: DataQualityExample[]; // first MAX_EXAMPLES occurrences
+}
+
+export interface DataQualityReport {
+  total_transactions: number;
+  accepted_transactions: number; // passed on to detection
+  dropped_transactions: number;
+  flagged_transactions: number;
+  rejected: boolean; // a "reject" policy was triggered
+  timestamp_format: ResolvedTimestampFormat; // format timestamps were read in
+  issues: DataQualityIssue[]; // only classes that occurred
+}
+
+export interface DataQualityResult {
+  transactions: Transaction[];
+  report: DataQualityReport;
+  // Issues of each kept-and-flagged transaction
+  flags: Map<Transaction, DataQualityIssueType[]>;
+}
+
+// Thrown by analyzeTransactions when a "reject" policy is triggered
+export class DataQualityError extends Error {
+  constructor(public readonly report: DataQualityReport) {
+    const counts = report.issues
+      .filter(issue => issue.policy === "reject")
+      .map(issue => `${issue.description} (${issue.count})`);
+    super(`Upload rejected by data-quality policy: ${counts.join(", ")}`);
+    this.name = "DataQualityError";
+  }
+}
+
+const MAX_EXAMPLES = 5;
+
+const ISSUE_CLASSES: {
+  type: DataQualityIssueType;
+  option: keyof DataQualityOptions;
+  severity: DataQualitySeverity;
+  description: string;
+}[] = [
+  {
+    type: "duplicate_transaction_id",
+    option: "duplicateTransactionId",
+    severity: "warning",
+    description: "Duplicate transaction IDs",
+  },
+  {
+    type: "cross_file_duplicate",
+    option: "crossFileDuplicate",
+    severity: "warning",
+    description: "Transaction IDs repeated across files",
+  },
+  {
+    type: "self_transfer",
+    option: "selfTransfer",
+    severity: "warning",
+    description: "Self-transfers",
+  },
+  {
+    type: "non_positive_amount",
+    option: "nonPositiveAmount",
+    severity: "error",
+    description: "Zero or negative amounts",
+  },
+  {
+    type: "invalid_timestamp",
+    option: "invalidTimestamp",
+    severity: "error",
+    description: "Unparseable timestamps",
+  },
+];
+
+// Issues of a single transaction; the first occurrence of an ID is not a
+// duplicate. A repeat of an ID first seen in another file (overlapping
+// exports) is a cross-file duplicate rather than a duplicate.
+function findIssues(tx: Transaction, seenIds: Map<string, string | undefined>): [DataQualityIssueType, string][] {
+  const issues: [DataQualityIssueType, string][] = [];
+  if (seenIds.has(tx.transaction_id)) {
+    const firstFile = seenIds.get(tx.transaction_id);
+    if (firstFile !== tx.source_file) {
+      issues.push(["cross_file_duplicate", `${tx.source_file}, first seen in ${firstFile}`]);
+    } else {
+      issues.push(["duplicate_transaction_id", tx.transaction_id]);
+    }
+  } else {
+    seenIds.set(tx.transaction_id, tx.source_file);
+  }
+  if (tx.sender_id === tx.receiver_id) {
+    issues.push(["self_transfer", tx.sender_id]);
+  }
+  if (!(tx.amount > 0)) {
+    issues.push(["non_positive_amount", String(tx.amount)]);
+  }
+  if (Number.isNaN(tx.epoch_ms)) {
+    issues.push(["invalid_timestamp", tx.timestamp]);
+  }
+  return issues;
+}
+
+export function assessDataQuality(
+  transactions: Transaction[],
+  options: DataQualityOptions,
+  timestampFormat: ResolvedTimestampFormat
+): DataQualityResult {
+  const issues = new Map<DataQualityIssueType, DataQualityIssue>();
+  const policyOf = new Map(ISSUE_CLASSES.map(c => [c.type, options[c.option]]));
+  const seenIds = new Map<string, string | undefined>();
+  const accepted: Transaction[] = [];
+  const flags = new Map<Transaction, DataQualityIssueType[]>();
+  let dropped = 0;
+
+  for (const tx of transactions) {
+    const found = findIssues(tx, seenIds);
+
+    for (const [type, value] of found) {
+      if (!issues.has(type)) {
+        const issueClass = ISSUE_CLASSES.find(c => c.type === type)!;
+        issues.set(type, {
+          type,
+          severity: issueClass.severity,
+          policy: policyOf.get(type)!,
+          description: issueClass.description,
+          count: 0,
+          examples: [],
+        });
+      }
+      const issue = issues.get(type)!;
+      issue.count++;
+      if (issue.examples.length < MAX_EXAMPLES) {
+        issue.examples.push({ transaction_id: tx.transaction_id, value });
+      }
+    }
+
+    // "reject" is settled after the scan so the report covers the whole upload
+    if (found.some(([type]) => policyOf.get(type) === "drop")) {
+      dropped++;
+      continue;
+    }
+    if (found.length > 0) flags.set(tx, found.map(([type]) => type));
+    accepted.push(tx);
+  }
+
+  // Report issue classes in a fixed order
+  const issueList = ISSUE_CLASSES.filter(c => issues.has(c.type)).map(c => issues.get(c.type)!);
+
+  return {
+    transactions: accepted,
+    flags,
+    report: {
+      total_transactions: transactions.length,
+      accepted_transactions: accepted.length,
+      dropped_transactions: dropped,
+      flagged_transactions: flags.size,
+      rejected: issueList.some(issue => issue.policy === "reject"),
+      timestamp_format: timestampFormat,
+      issues: issueList,
+    },
+  };
+}
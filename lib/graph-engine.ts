@@ -1,7 +1,21 @@
 // =====================================================
 // Financial Crime Graph Analysis Engine
-// Detects money muling patterns: cycles, smurfing, shell networks
+// Detects money muling patterns: cycles, smurfing, shell networks, structuring
 // =====================================================
+import {
+  assessDataQuality,
+  DataQualityError,
+  DEFAULT_DATA_QUALITY_OPTIONS,
+  type DataQualityIssueType,
+  type DataQualityOptions,
+  type DataQualityReport,
+} from "@/lib/data-quality";
+import {
+  DEFAULT_TIMESTAMP_OPTIONS,
+  normalizeTimestamps,
+  type TimestampOptions,
+} from "@/lib/timestamps";
+import type { InputFormat } from "@/lib/ingest";
 
 export interface Transaction {
   transaction_id: string;
@@ -9,13 +23,37 @@ export interface Transaction {
   receiver_id: string;
   amount: number;
   timestamp: string;
+  epoch_ms: number; // timestamp parsed by the normalisation layer, NaN if unparseable
+  currency?: string; // ISO 4217 code, when the source states one
+  metadata?: Record<string, string>; // source-specific details, e.g. SWIFT intermediary banks
+  source_file?: string; // uploaded file (or archive/entry path) the transaction was read from
 }
 
+// Transaction as ingested, before timestamp normalisation
+export type TransactionInput = Omit<Transaction, "epoch_ms">;
+
+// Transaction handed over to the analysis, which sets epoch_ms on it in
+// place instead of copying a possibly very large upload
+export type OwnedTransactionInput = TransactionInput & { epoch_ms?: number };
+
 export interface SuspiciousAccount {
   account_id: string;
   suspicion_score: number;
   detected_patterns: string[];
-  ring_id: string;
+  ring_id: string; // primary ring: the highest-risk ring that flags the account
+  ring_ids: string[]; // every ring the account is in, by descending ring risk
+  ring_roles: Record<string, MemberRole>; // ring_id -> role in that ring
+  score_breakdown: ScoreContribution[];
+}
+
+// One itemised line of a suspicion score, with the evidence behind it
+export interface ScoreContribution {
+  factor: string;
+  points: number;
+  description: string;
+  ring_ids: string[];
+  count?: number;
+  ratio?: number;
 }
 
 export interface FraudRing {
@@ -23,6 +61,29 @@ export interface FraudRing {
   member_accounts: string[];
   pattern_type: string;
   risk_score: number;
+  // Transactions backing the ring: the money path of a temporal cycle
+  // (chronological) or the structured amounts of a structuring ring
+  transaction_ids?: string[];
+  // Amount retention along cycles and shell chains
+  amount_profile?: AmountRetentionProfile;
+  // Role each member plays in the ring
+  member_roles: Record<string, MemberRole>;
+}
+
+export type MemberRole = "hub" | "sender" | "intermediary" | "terminal" | "source" | "collector";
+
+export interface RetentionHop {
+  account_id: string;
+  amount_in: number;
+  amount_out: number;
+  retention_pct: number; // share of amount_in passed on
+  fee: number; // implied amount kept by this account
+}
+
+export interface AmountRetentionProfile {
+  hops: RetentionHop[];
+  overall_retention_pct: number; // last hop amount vs first hop amount
+  conservation: number; // 0.0 (unrelated amounts) to 1.0 (fully conserved)
 }
 
 export interface AnalysisSummary {
@@ -30,6 +91,17 @@ export interface AnalysisSummary {
   suspicious_accounts_flagged: number;
   fraud_rings_detected: number;
   processing_time_seconds: number;
+  // Per-stage breakdown of processing_time_seconds, in run order
+  stages: StageTiming[];
+}
+
+export interface StageTiming {
+  stage: string; // as in AnalysisStageEvent
+  elapsed_ms: number; // wall time
+  count: number; // items the stage produced (see AnalysisStageEvent.count)
+  // Highest heap use sampled while the stage ran (at its start, end and
+  // progress reports), or null where the runtime does not report it
+  peak_heap_bytes: number | null;
 }
 
 export interface AnalysisResult {
@@ -38,6 +110,28 @@ export interface AnalysisResult {
   summary: AnalysisSummary;
   nodes: GraphNode[];
   edges: GraphEdge[];
+  // Effective config, echoed for reproducibility
+  config: AnalysisConfig;
+  // Issues found in the input and how each was handled
+  data_quality: DataQualityReport;
+  // Input rows the ingest layer could not turn into transactions
+  rejected_rows?: RowRejection[];
+  rejected_row_count?: number;
+  // Files the transactions were read from, in upload order
+  source_files?: SourceFile[];
+}
+
+export interface RowRejection {
+  line: number; // 1-based line (CSV, NDJSON) or record number (JSON array)
+  reason: string;
+  file?: string; // source file, in multi-file uploads
+}
+
+export interface SourceFile {
+  name: string; // file name, or "archive.zip/entry.csv" for archive entries
+  format: InputFormat | null; // null when the file was skipped as unrecognised
+  transaction_count: number;
+  rejected_row_count: number;
 }
 
 export interface GraphNode {
@@ -49,6 +143,10 @@ export interface GraphNode {
   total_received: number;
   transaction_count: number;
   suspicion_score: number;
+  // Dwell time: how long received funds stay before being sent on
+  median_dwell_hours: number | null;
+  p90_dwell_hours: number | null;
+  forwarded_within_24h_pct: number;
 }
 
 export interface GraphEdge {
@@ -57,11 +155,30 @@ export interface GraphEdge {
   amount: number;
   timestamp: string;
   transaction_id: string;
+  currency?: string;
+  metadata?: Record<string, string>;
+  source_file?: string;
+  // Present on transactions kept despite data-quality issues
+  quality_flags?: DataQualityIssueType[];
+}
+
+// sender -> receiver -> transactions
+export type AdjacencyList = Map<string, Map<string, Transaction[]>>;
+
+export interface AccountStat {
+  totalSent: number;
+  totalReceived: number;
+  sendCount: number;
+  receiveCount: number;
+  senders: Set<string>;
+  receivers: Set<string>;
+  transactionTimestamps: number[]; // epoch ms, transactions with a valid timestamp only
+  totalTransactions: number;
 }
 
 // Build adjacency list from transactions
-function buildAdjacencyList(transactions: Transaction[]): Map<string, Map<string, Transaction[]>> {
-  const adj = new Map<string, Map<string, Transaction[]>>();
+function buildAdjacencyList(transactions: Transaction[]): AdjacencyList {
+  const adj: AdjacencyList = new Map();
   for (const tx of transactions) {
     if (!adj.has(tx.sender_id)) adj.set(tx.sender_id, new Map());
     const senderMap = adj.get(tx.sender_id)!;
@@ -82,17 +199,8 @@ function getAllAccounts(transactions: Transaction[]): Set<string> {
 }
 
 // Compute per-account statistics
-function computeAccountStats(transactions: Transaction[]) {
-  const stats = new Map<string, {
-    totalSent: number;
-    totalReceived: number;
-    sendCount: number;
-    receiveCount: number;
-    senders: Set<string>;
-    receivers: Set<string>;
-    transactionTimestamps: number[];
-    totalTransactions: number;
-  }>();
+function computeAccountStats(transactions: Transaction[]): Map<string, AccountStat> {
+  const stats = new Map<string, AccountStat>();
 
   function getOrCreate(id: string) {
     if (!stats.has(id)) {
@@ -113,18 +221,18 @@ function computeAccountStats(transactions: Transaction[]) {
   for (const tx of transactions) {
     const sender = getOrCreate(tx.sender_id);
     const receiver = getOrCreate(tx.receiver_id);
-    const ts = new Date(tx.timestamp).getTime();
+    const ts = tx.epoch_ms;
 
     sender.totalSent += tx.amount;
     sender.sendCount++;
     sender.receivers.add(tx.receiver_id);
-    sender.transactionTimestamps.push(ts);
+    if (!isNaN(ts)) sender.transactionTimestamps.push(ts);
     sender.totalTransactions++;
 
     receiver.totalReceived += tx.amount;
     receiver.receiveCount++;
     receiver.senders.add(tx.sender_id);
-    receiver.transactionTimestamps.push(ts);
+    if (!isNaN(ts)) receiver.transactionTimestamps.push(ts);
     receiver.totalTransactions++;
   }
 
@@ -142,73 +250,322 @@ function makeRingDeduplicationKey(members: string[], patternType: string): strin
 
 // =====================================================
 // Pattern 1: Circular Fund Routing (Cycles of length 3-5)
-// Uses DFS-based cycle detection
+// Tarjan SCC pruning + bounded Johnson-style enumeration
 // =====================================================
-function detectCycles(
-  adj: Map<string, Map<string, Transaction[]>>,
-  allAccounts: Set<string>
-): string[][] {
-  const cycles: string[][] = [];
+export interface CycleBounds {
+  minLength: number;
+  maxLength: number;
+}
+
+const DEFAULT_CYCLE_BOUNDS: CycleBounds = { minLength: 3, maxLength: 5 };
+
+export interface CycleDetectionOptions extends CycleBounds {
+  // Only keep cycles whose transfers can be ordered in time
+  temporal: boolean;
+  temporalWindowMs: number;
+}
+
+const DEFAULT_CYCLE_OPTIONS: CycleDetectionOptions = {
+  ...DEFAULT_CYCLE_BOUNDS,
+  temporal: false,
+  temporalWindowMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+// Iterative Tarjan: returns the SCC index of every node that sits in a
+// non-trivial component (size >= 2). Nodes outside any cycle are omitted.
+function findCyclicComponents(
+  adj: AdjacencyList,
+  allNodes: string[]
+): Map<string, number> {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const componentOf = new Map<string, number>();
+  let nextIndex = 0;
+  let componentCount = 0;
+
+  for (const root of allNodes) {
+    if (index.has(root)) continue;
+
+    const callStack: { node: string; neighbors: Iterator<string> }[] = [];
+    const enter = (node: string) => {
+      index.set(node, nextIndex);
+      lowLink.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+      const neighbors = adj.get(node);
+      callStack.push({ node, neighbors: neighbors ? neighbors.keys() : [][Symbol.iterator]() });
+    };
+
+    enter(root);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const next = frame.neighbors.next();
+
+      if (!next.done) {
+        const neighbor = next.value;
+        if (!index.has(neighbor)) {
+          enter(neighbor);
+        } else if (onStack.has(neighbor)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(neighbor)!));
+        }
+        continue;
+      }
+
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (component.length >= 2) {
+          for (const m of component) componentOf.set(m, componentCount);
+          componentCount++;
+        }
+      }
+    }
+  }
+
+  return componentOf;
+}
+
+// Lazy: cycles are yielded as each start node's search completes, so
+// callers can report progress while the enumeration runs
+export function* detectCycles(
+  adj: AdjacencyList,
+  allAccounts: Set<string>,
+  bounds: CycleBounds = DEFAULT_CYCLE_BOUNDS
+): Generator<string[]> {
+  const { minLength, maxLength } = bounds;
   const allNodes = Array.from(allAccounts);
+  const componentOf = findCyclicComponents(adj, allNodes);
+
+  // Reverse edges restricted to each component, used to prune branches
+  // that cannot return to the start node within the remaining hops
+  const reverseAdj = new Map<string, string[]>();
+  for (const [source, targets] of adj) {
+    const component = componentOf.get(source);
+    if (component === undefined) continue;
+    for (const [target] of targets) {
+      if (componentOf.get(target) !== component) continue;
+      if (!reverseAdj.has(target)) reverseAdj.set(target, []);
+      reverseAdj.get(target)!.push(source);
+    }
+  }
+
+  // Each cycle is enumerated exactly once, rooted at its member that comes
+  // first in account order: the search from `startNode` only visits nodes
+  // of the same component that come later in that order.
+  const order = new Map<string, number>();
+  allNodes.forEach((node, i) => order.set(node, i));
 
   for (const startNode of allNodes) {
-    const visited = new Set<string>();
-    const path: string[] = [];
+    const component = componentOf.get(startNode);
+    if (component === undefined) continue;
+    const startOrder = order.get(startNode)!;
+
+    const isEligible = (node: string) =>
+      componentOf.get(node) === component && order.get(node)! > startOrder;
+
+    // Hops needed to get back to startNode, bounded by maxLength - 1
+    const hopsToStart = new Map<string, number>([[startNode, 0]]);
+    let frontier = [startNode];
+    for (let hops = 1; hops < maxLength && frontier.length > 0; hops++) {
+      const nextFrontier: string[] = [];
+      for (const node of frontier) {
+        for (const pred of reverseAdj.get(node) || []) {
+          if (hopsToStart.has(pred) || !isEligible(pred)) continue;
+          hopsToStart.set(pred, hops);
+          nextFrontier.push(pred);
+        }
+      }
+      frontier = nextFrontier;
+    }
 
-    function dfs(current: string, depth: number) {
-      if (depth > 5) return;
-      path.push(current);
-      visited.add(current);
+    const visited = new Set<string>([startNode]);
+    const path: string[] = [startNode];
+    const cycles: string[][] = [];
 
+    function search(current: string) {
       const neighbors = adj.get(current);
-      if (neighbors) {
-        for (const [neighbor] of neighbors) {
-          if (neighbor === startNode && depth >= 3) {
-            cycles.push([...path]);
-          } else if (!visited.has(neighbor) && depth < 5) {
-            dfs(neighbor, depth + 1);
-          }
+      if (!neighbors) return;
+
+      for (const [neighbor] of neighbors) {
+        if (neighbor === startNode) {
+          if (path.length >= minLength) cycles.push([...path]);
+          continue;
         }
+        if (visited.has(neighbor)) continue;
+        const remaining = hopsToStart.get(neighbor);
+        if (remaining === undefined || path.length + remaining > maxLength) continue;
+
+        visited.add(neighbor);
+        path.push(neighbor);
+        search(neighbor);
+        path.pop();
+        visited.delete(neighbor);
       }
-
-      path.pop();
-      visited.delete(current);
     }
 
-    dfs(startNode, 1);
+    search(startNode);
+
+    // Normalize: rotate so smallest element is first
+    for (const cycle of cycles) {
+      const minIdx = cycle.indexOf(
+        cycle.reduce((a, b) => (a < b ? a : b))
+      );
+      yield [...cycle.slice(minIdx), ...cycle.slice(0, minIdx)];
+    }
   }
+}
+
+// =====================================================
+// Temporal Cycle Check
+// A cycle is time-respecting if one transaction per hop can be chosen
+// with strictly increasing timestamps, starting from any member, and the
+// whole loop completes within the window. Returns the tightest such path,
+// rotated so members line up with the chosen transactions.
+// =====================================================
+interface TemporalCyclePath {
+  members: string[];
+  transactions: Transaction[];
+}
 
-  // Deduplicate cycles (same cycle found starting from different nodes)
-  const uniqueCycles: string[][] = [];
-  const seen = new Set<string>();
+function findTemporalCyclePath(
+  cycle: string[],
+  adj: AdjacencyList,
+  windowMs: number
+): TemporalCyclePath | null {
+  const k = cycle.length;
+
+  // Transactions for each hop, sorted by time
+  const hops = cycle.map((from, i) => {
+    const to = cycle[(i + 1) % k];
+    return (adj.get(from)?.get(to) || [])
+      .map(tx => ({ tx, ts: tx.epoch_ms }))
+      .filter(h => !isNaN(h.ts))
+      .sort((a, b) => a.ts - b.ts);
+  });
+
+  let best: { span: number; offset: number; transactions: Transaction[] } | null = null;
+
+  for (let offset = 0; offset < k; offset++) {
+    for (const first of hops[offset]) {
+      // Greedily take the earliest transfer after the previous one:
+      // this minimizes the loop's end time for a given starting transfer
+      const chosen = [first];
+      let prevTs = first.ts;
+      for (let step = 1; step < k; step++) {
+        const next = hops[(offset + step) % k].find(h => h.ts > prevTs);
+        if (!next || next.ts - first.ts > windowMs) break;
+        chosen.push(next);
+        prevTs = next.ts;
+      }
+      if (chosen.length < k) continue;
 
-  for (const cycle of cycles) {
-    // Normalize: rotate so smallest element is first
-    const minIdx = cycle.indexOf(
-      cycle.reduce((a, b) => (a < b ? a : b))
-    );
-    const normalized = [...cycle.slice(minIdx), ...cycle.slice(0, minIdx)];
-    const key = normalized.join("|");
-    if (!seen.has(key)) {
-      seen.add(key);
-      uniqueCycles.push(normalized);
+      const span = prevTs - first.ts;
+      if (!best || span < best.span) {
+        best = { span, offset, transactions: chosen.map(h => h.tx) };
+      }
     }
   }
 
-  return uniqueCycles;
+  if (!best) return null;
+  return {
+    members: [...cycle.slice(best.offset), ...cycle.slice(0, best.offset)],
+    transactions: best.transactions,
+  };
+}
+
+// =====================================================
+// Amount Retention Profile
+// For a path of accounts with the amount moved on each hop, every
+// intermediary receives one hop and passes on the next. Near-equal
+// in/out amounts (minus a small mule fee) indicate the same funds
+// moving along the path rather than unrelated payments.
+// =====================================================
+function sumEdgeAmount(
+  adj: AdjacencyList,
+  from: string,
+  to: string
+): number {
+  const txs = adj.get(from)?.get(to) || [];
+  return txs.reduce((sum, tx) => sum + tx.amount, 0);
+}
+
+function buildAmountProfile(path: string[], hopAmounts: number[]): AmountRetentionProfile {
+  const hops: RetentionHop[] = [];
+  let conservationTotal = 0;
+
+  for (let i = 0; i < hopAmounts.length - 1; i++) {
+    const amountIn = hopAmounts[i];
+    const amountOut = hopAmounts[i + 1];
+    const larger = Math.max(amountIn, amountOut);
+    conservationTotal += larger > 0 ? Math.max(Math.min(amountIn, amountOut), 0) / larger : 0;
+
+    hops.push({
+      account_id: path[i + 1],
+      amount_in: Math.round(amountIn * 100) / 100,
+      amount_out: Math.round(amountOut * 100) / 100,
+      retention_pct: amountIn > 0 ? Math.round((amountOut / amountIn) * 1000) / 10 : 0,
+      fee: Math.round((amountIn - amountOut) * 100) / 100,
+    });
+  }
+
+  const first = hopAmounts[0];
+  const last = hopAmounts[hopAmounts.length - 1];
+  const conservation = hops.length > 0 ? conservationTotal / hops.length : 0;
+
+  return {
+    hops,
+    overall_retention_pct: first > 0 ? Math.round((last / first) * 1000) / 10 : 0,
+    conservation: Math.round(conservation * 1000) / 1000,
+  };
 }
 
 // =====================================================
 // Pattern 2: Smurfing (Fan-in / Fan-out)
 // Fan-in: 10+ senders -> 1 receiver within 72h window
 // Fan-out: 1 sender -> 10+ receivers within 72h window
+// Transactions without a valid timestamp (kept by the "flag" policy)
+// count as counterparties but cannot be placed in a window
 // =====================================================
-function detectSmurfing(transactions: Transaction[]) {
-  const WINDOW_MS = 72 * 60 * 60 * 1000; // 72 hours
-  const MIN_CONNECTIONS = 10;
+export interface SmurfingOptions {
+  windowMs: number;
+  minConnections: number;
+}
+
+const DEFAULT_SMURFING_OPTIONS: SmurfingOptions = {
+  windowMs: 72 * 60 * 60 * 1000, // 72 hours
+  minConnections: 10,
+};
+
+interface SmurfingHit {
+  accountId: string;
+  direction: "in" | "out"; // fan-in (senders) or fan-out (receivers)
+  counterparties: string[];
+  temporal: boolean; // enough counterparties within one window
+}
 
-  const fanInAccounts: Map<string, { senders: string[]; temporal: boolean }> = new Map();
-  const fanOutAccounts: Map<string, { receivers: string[]; temporal: boolean }> = new Map();
+// Yields fan-in hubs, then fan-out hubs, as each is found, and undefined
+// after every account checked so callers can pause between accounts
+function* detectSmurfing(
+  transactions: Transaction[],
+  options: SmurfingOptions
+): Generator<SmurfingHit | undefined> {
+  const { windowMs: WINDOW_MS, minConnections: MIN_CONNECTIONS } = options;
 
   const byReceiver = new Map<string, Transaction[]>();
   const bySender = new Map<string, Transaction[]>();
@@ -220,63 +577,43 @@ function detectSmurfing(transactions: Transaction[]) {
     bySender.get(tx.sender_id)!.push(tx);
   }
 
-  // Fan-in detection
-  for (const [receiverId, txs] of byReceiver) {
-    const uniqueSenders = new Set(txs.map(t => t.sender_id));
-    if (uniqueSenders.size >= MIN_CONNECTIONS) {
-      const timestamps = txs.map(t => new Date(t.timestamp).getTime()).sort((a, b) => a - b);
-      let temporalCluster = false;
-      for (let i = 0; i < timestamps.length; i++) {
-        const windowEnd = timestamps[i] + WINDOW_MS;
-        const sendersInWindow = new Set(
-          txs
-            .filter(t => {
-              const ts = new Date(t.timestamp).getTime();
-              return ts >= timestamps[i] && ts <= windowEnd;
-            })
-            .map(t => t.sender_id)
-        );
-        if (sendersInWindow.size >= MIN_CONNECTIONS) {
-          temporalCluster = true;
-          break;
-        }
-      }
-      fanInAccounts.set(receiverId, {
-        senders: Array.from(uniqueSenders),
-        temporal: temporalCluster,
-      });
-    }
-  }
+  function* scan(grouped: Map<string, Transaction[]>, direction: "in" | "out"): Generator<SmurfingHit | undefined> {
+    const counterpartyOf = (t: Transaction) => (direction === "in" ? t.sender_id : t.receiver_id);
+
+    for (const [accountId, txs] of grouped) {
+      yield;
+      const uniqueCounterparties = new Set(txs.map(counterpartyOf));
+      if (uniqueCounterparties.size < MIN_CONNECTIONS) continue;
 
-  // Fan-out detection
-  for (const [senderId, txs] of bySender) {
-    const uniqueReceivers = new Set(txs.map(t => t.receiver_id));
-    if (uniqueReceivers.size >= MIN_CONNECTIONS) {
-      const timestamps = txs.map(t => new Date(t.timestamp).getTime()).sort((a, b) => a - b);
+      const timed = txs.filter(t => !isNaN(t.epoch_ms));
+      const timestamps = timed.map(t => t.epoch_ms).sort((a, b) => a - b);
       let temporalCluster = false;
       for (let i = 0; i < timestamps.length; i++) {
         const windowEnd = timestamps[i] + WINDOW_MS;
-        const receiversInWindow = new Set(
-          txs
+        const counterpartiesInWindow = new Set(
+          timed
             .filter(t => {
-              const ts = new Date(t.timestamp).getTime();
+              const ts = t.epoch_ms;
               return ts >= timestamps[i] && ts <= windowEnd;
             })
-            .map(t => t.receiver_id)
+            .map(counterpartyOf)
         );
-        if (receiversInWindow.size >= MIN_CONNECTIONS) {
+        if (counterpartiesInWindow.size >= MIN_CONNECTIONS) {
           temporalCluster = true;
           break;
         }
       }
-      fanOutAccounts.set(senderId, {
-        receivers: Array.from(uniqueReceivers),
+      yield {
+        accountId,
+        direction,
+        counterparties: Array.from(uniqueCounterparties),
         temporal: temporalCluster,
-      });
+      };
     }
   }
 
-  return { fanInAccounts, fanOutAccounts };
+  yield* scan(byReceiver, "in");
+  yield* scan(bySender, "out");
 }
 
 // =====================================================
@@ -285,15 +622,29 @@ function detectSmurfing(transactions: Transaction[]) {
 // Final destination is always included even if not suspicious
 // Cycle nodes are excluded from shell classification
 // =====================================================
-function detectShellNetworks(
-  adj: Map<string, Map<string, Transaction[]>>,
-  accountStats: ReturnType<typeof computeAccountStats>,
-  cycleNodes: Set<string>
-): string[][] {
+export interface ShellNetworkOptions {
+  // Transaction count range that marks an account as a shell
+  minDegree: number;
+  maxDegree: number;
+}
+
+const DEFAULT_SHELL_NETWORK_OPTIONS: ShellNetworkOptions = { minDegree: 2, maxDegree: 3 };
+
+// Chains can only be deduplicated once all are found, so this yields
+// undefined after each start node's search and returns the chains
+function* detectShellNetworks(
+  adj: AdjacencyList,
+  accountStats: Map<string, AccountStat>,
+  cycleNodes: Set<string>,
+  options: ShellNetworkOptions
+): Generator<undefined, string[][]> {
+  const isShellDegree = (txCount: number) =>
+    txCount >= options.minDegree && txCount <= options.maxDegree;
   const chains: string[][] = [];
   const allNodes = Array.from(adj.keys());
 
   for (const startNode of allNodes) {
+    yield;
     // Skip if start node is part of a cycle
     if (cycleNodes.has(startNode)) continue;
 
@@ -314,7 +665,7 @@ function detectShellNetworks(
         const totalTx = stats ? stats.totalTransactions : 0;
 
         // Intermediate nodes should have low transaction counts (2-3)
-        if (totalTx >= 2 && totalTx <= 3) {
+        if (isShellDegree(totalTx)) {
           path.push(neighbor);
           visited.add(neighbor);
 
@@ -326,7 +677,7 @@ function detectShellNetworks(
                 const nnStats = accountStats.get(nn);
                 const nnTx = nnStats ? nnStats.totalTransactions : 0;
 
-                if (nnTx >= 2 && nnTx <= 3) {
+                if (isShellDegree(nnTx)) {
                   // Continue the chain through another shell node
                   // Will be explored on next dfs call
                 } else {
@@ -362,7 +713,7 @@ function detectShellNetworks(
   const uniqueChains: string[][] = [];
 
   for (const chain of sortedChains) {
-    const chainSet = new Set(chain);
+    yield;
     let isSubset = false;
     for (const existing of uniqueChains) {
       const existingSet = new Set(existing);
@@ -379,33 +730,701 @@ function detectShellNetworks(
   return uniqueChains;
 }
 
+// =====================================================
+// Pattern 4: Structuring (amounts kept just below a reporting threshold)
+// Flags accounts that send or receive repeated amounts within a band
+// under the threshold (e.g. $9,000-$9,999 against a $10,000 CTR limit)
+// inside a rolling window
+// =====================================================
+export const STRUCTURING_JURISDICTIONS = ["us_ctr", "eu_aml", "eu_cash", "uk_mlr"] as const;
+export type StructuringJurisdiction = (typeof STRUCTURING_JURISDICTIONS)[number];
+
+export interface StructuringOptions {
+  // Reporting regime to test against: sets the threshold and band, and
+  // limits the check to transactions in its currency (or stating none).
+  // null applies threshold and bandPct to every currency.
+  jurisdiction: StructuringJurisdiction | null;
+  threshold: number;
+  bandPct: number; // width of the band below the threshold, in percent
+  minOccurrences: number;
+  windowMs: number;
+}
+
+export interface StructuringPreset {
+  label: string;
+  currency: string;
+  threshold: number;
+  bandPct: number;
+}
+
+export const STRUCTURING_PRESETS: Record<StructuringJurisdiction, StructuringPreset> = {
+  us_ctr: { label: "US Currency Transaction Report ($10,000)", currency: "USD", threshold: 10000, bandPct: 10 },
+  eu_aml: { label: "EU AML occasional transaction (€15,000)", currency: "EUR", threshold: 15000, bandPct: 10 },
+  eu_cash: { label: "EU cash payment limit (€10,000)", currency: "EUR", threshold: 10000, bandPct: 10 },
+  // MLR 2017 reg. 14(1)(a): high value dealers' cash payments of at
+  // least €10,000, which the regulations set in euros
+  uk_mlr: { label: "UK Money Laundering Regulations cash (€10,000)", currency: "EUR", threshold: 10000, bandPct: 10 },
+};
+
+const DEFAULT_STRUCTURING_OPTIONS: StructuringOptions = {
+  jurisdiction: null,
+  threshold: STRUCTURING_PRESETS.us_ctr.threshold,
+  bandPct: STRUCTURING_PRESETS.us_ctr.bandPct,
+  minOccurrences: 3,
+  windowMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+// A jurisdiction supplies the threshold and band; either can still be
+// given explicitly to override the preset's
+function resolveStructuringOptions(input: Partial<StructuringOptions> = {}): StructuringOptions {
+  const jurisdiction = input.jurisdiction ?? DEFAULT_STRUCTURING_OPTIONS.jurisdiction;
+  const preset = jurisdiction ? STRUCTURING_PRESETS[jurisdiction] : undefined;
+  return {
+    ...DEFAULT_STRUCTURING_OPTIONS,
+    ...(preset && { threshold: preset.threshold, bandPct: preset.bandPct }),
+    ...input,
+    jurisdiction,
+  };
+}
+
+interface StructuringHit {
+  accountId: string;
+  direction: "in" | "out";
+  counterparties: string[];
+  transactions: Transaction[];
+}
+
+// Yields inbound hits, then outbound ones, and undefined after every
+// account checked so callers can pause between accounts
+function* detectStructuring(
+  transactions: Transaction[],
+  options: StructuringOptions
+): Generator<StructuringHit | undefined> {
+  const { threshold, bandPct, minOccurrences, windowMs } = options;
+  const bandFloor = threshold * (1 - bandPct / 100);
+  const currency = options.jurisdiction ? STRUCTURING_PRESETS[options.jurisdiction].currency : null;
+
+  const inBand = (tx: Transaction) =>
+    tx.amount >= bandFloor &&
+    tx.amount < threshold &&
+    (!currency || !tx.currency || tx.currency.toUpperCase() === currency);
+
+  const byReceiver = new Map<string, { tx: Transaction; ts: number }[]>();
+  const bySender = new Map<string, { tx: Transaction; ts: number }[]>();
+
+  for (const tx of transactions) {
+    if (!inBand(tx)) continue;
+    const ts = tx.epoch_ms;
+    if (isNaN(ts)) continue;
+    if (!byReceiver.has(tx.receiver_id)) byReceiver.set(tx.receiver_id, []);
+    byReceiver.get(tx.receiver_id)!.push({ tx, ts });
+    if (!bySender.has(tx.sender_id)) bySender.set(tx.sender_id, []);
+    bySender.get(tx.sender_id)!.push({ tx, ts });
+  }
+
+  function* scan(
+    grouped: Map<string, { tx: Transaction; ts: number }[]>,
+    direction: "in" | "out"
+  ): Generator<StructuringHit | undefined> {
+    for (const [accountId, entries] of grouped) {
+      yield;
+      if (entries.length < minOccurrences) continue;
+      entries.sort((a, b) => a.ts - b.ts);
+
+      // Sliding window: keep the densest run of in-band amounts
+      let bestStart = 0;
+      let bestEnd = -1;
+      let start = 0;
+      for (let end = 0; end < entries.length; end++) {
+        while (entries[end].ts - entries[start].ts > windowMs) start++;
+        if (end - start > bestEnd - bestStart) {
+          bestStart = start;
+          bestEnd = end;
+        }
+      }
+
+      const windowEntries = entries.slice(bestStart, bestEnd + 1);
+      if (windowEntries.length < minOccurrences) continue;
+
+      const counterparties = new Set(
+        windowEntries.map(e => (direction === "in" ? e.tx.sender_id : e.tx.receiver_id))
+      );
+      counterparties.delete(accountId);
+
+      yield {
+        accountId,
+        direction,
+        counterparties: Array.from(counterparties),
+        transactions: windowEntries.map(e => e.tx),
+      };
+    }
+  }
+
+  yield* scan(byReceiver, "in");
+  yield* scan(bySender, "out");
+}
+
+// =====================================================
+// Pattern 5: Rapid Pass-Through (dwell-time analysis)
+// Matches each account's inflows to its later outflows FIFO style,
+// so every forwarded amount gets a holding time. Mule accounts hold
+// funds for hours, not weeks.
+// =====================================================
+const RAPID_FORWARD_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface PassThroughOptions {
+  minForwardedPct: number; // share of received funds forwarded within 24h
+  minInflows: number;
+}
+
+const DEFAULT_PASS_THROUGH_OPTIONS: PassThroughOptions = {
+  minForwardedPct: 80,
+  minInflows: 2,
+};
+
+export interface DwellProfile {
+  medianHours: number | null;
+  p90Hours: number | null;
+  forwardedWithin24hPct: number;
+  inflowCount: number;
+  upstream: Set<string>;
+  downstream: Set<string>;
+}
+
+// Amount-weighted percentile over (hours, amount) samples sorted by hours
+function weightedPercentile(samples: { hours: number; amount: number }[], q: number): number | null {
+  const total = samples.reduce((sum, s) => sum + s.amount, 0);
+  if (total <= 0) return null;
+  let cumulative = 0;
+  for (const sample of samples) {
+    cumulative += sample.amount;
+    if (cumulative >= q * total) return Math.round(sample.hours * 10) / 10;
+  }
+  return Math.round(samples[samples.length - 1].hours * 10) / 10;
+}
+
+export function computeDwellTimes(transactions: Transaction[]): Map<string, DwellProfile> {
+  const events = new Map<string, { tx: Transaction; ts: number; inflow: boolean }[]>();
+
+  for (const tx of transactions) {
+    const ts = tx.epoch_ms;
+    if (isNaN(ts) || tx.amount <= 0) continue;
+    if (!events.has(tx.receiver_id)) events.set(tx.receiver_id, []);
+    events.get(tx.receiver_id)!.push({ tx, ts, inflow: true });
+    if (!events.has(tx.sender_id)) events.set(tx.sender_id, []);
+    events.get(tx.sender_id)!.push({ tx, ts, inflow: false });
+  }
+
+  const profiles = new Map<string, DwellProfile>();
+
+  for (const [accountId, accountEvents] of events) {
+    // Inflows first on equal timestamps so they can be forwarded immediately
+    accountEvents.sort((a, b) => a.ts - b.ts || Number(b.inflow) - Number(a.inflow));
+
+    const lots: { remaining: number; ts: number; sender: string }[] = [];
+    const samples: { hours: number; amount: number }[] = [];
+    const upstream = new Set<string>();
+    const downstream = new Set<string>();
+    let received = 0;
+    let forwardedWithin24h = 0;
+    let inflowCount = 0;
+
+    for (const event of accountEvents) {
+      if (event.inflow) {
+        lots.push({ remaining: event.tx.amount, ts: event.ts, sender: event.tx.sender_id });
+        received += event.tx.amount;
+        inflowCount++;
+        continue;
+      }
+
+      // Outflow: consume the oldest received funds first
+      let toMatch = event.tx.amount;
+      while (toMatch > 0 && lots.length > 0) {
+        const lot = lots[0];
+        const matched = Math.min(lot.remaining, toMatch);
+        const dwellMs = event.ts - lot.ts;
+
+        samples.push({ hours: dwellMs / (60 * 60 * 1000), amount: matched });
+        if (dwellMs <= RAPID_FORWARD_MS) {
+          forwardedWithin24h += matched;
+          upstream.add(lot.sender);
+          downstream.add(event.tx.receiver_id);
+        }
+
+        lot.remaining -= matched;
+        toMatch -= matched;
+        if (lot.remaining <= 0) lots.shift();
+      }
+    }
+
+    if (samples.length === 0) continue;
+    samples.sort((a, b) => a.hours - b.hours);
+
+    upstream.delete(accountId);
+    downstream.delete(accountId);
+
+    profiles.set(accountId, {
+      medianHours: weightedPercentile(samples, 0.5),
+      p90Hours: weightedPercentile(samples, 0.9),
+      forwardedWithin24hPct: received > 0 ? Math.round((forwardedWithin24h / received) * 1000) / 10 : 0,
+      inflowCount,
+      upstream,
+      downstream,
+    });
+  }
+
+  return profiles;
+}
+
+// =====================================================
+// Pattern 6: Scatter-Gather (composite of fan-out + fan-in)
+// A fan-out source and a fan-in collector that share intermediaries,
+// where each shared intermediary receives from the source before it
+// sends on to the collector. The collector may be the source itself
+// (a round trip through the intermediaries).
+// =====================================================
+export interface ScatterGatherOptions {
+  minIntermediaries: number;
+  maxGatherDelayMs: number; // max time between scatter and gather per intermediary
+}
+
+const DEFAULT_SCATTER_GATHER_OPTIONS: ScatterGatherOptions = {
+  minIntermediaries: 3,
+  maxGatherDelayMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+interface ScatterGatherHit {
+  source: string;
+  collector: string;
+  intermediaries: string[];
+}
+
+// Yields hits as each source is searched, and undefined after every
+// source so callers can pause between them
+function* detectScatterGather(
+  adj: AdjacencyList,
+  fanOutReceivers: Map<string, string[]>,
+  fanInCollectors: Set<string>,
+  options: ScatterGatherOptions
+): Generator<ScatterGatherHit | undefined> {
+  const timestampsOf = (from: string, to: string) =>
+    (adj.get(from)?.get(to) || [])
+      .map(tx => tx.epoch_ms)
+      .filter(ts => !isNaN(ts));
+
+  for (const [source, receivers] of fanOutReceivers) {
+    yield;
+    // collector -> intermediaries that forwarded the source's funds to it
+    const byCollector = new Map<string, string[]>();
+
+    for (const intermediary of receivers) {
+      const scatterTimes = timestampsOf(source, intermediary);
+      const onward = adj.get(intermediary);
+      if (!onward) continue;
+
+      for (const [collector] of onward) {
+        if (!fanInCollectors.has(collector)) continue;
+
+        const gatherTimes = timestampsOf(intermediary, collector);
+        const inOrder = scatterTimes.some(scatter =>
+          gatherTimes.some(gather => gather > scatter && gather - scatter <= options.maxGatherDelayMs)
+        );
+        if (!inOrder) continue;
+
+        if (!byCollector.has(collector)) byCollector.set(collector, []);
+        byCollector.get(collector)!.push(intermediary);
+      }
+    }
+
+    for (const [collector, intermediaries] of byCollector) {
+      if (intermediaries.length < options.minIntermediaries) continue;
+      yield { source, collector, intermediaries };
+    }
+  }
+}
+
+// =====================================================
+// Detector Registry
+// Each detector reads the shared graph context and returns candidate
+// rings. analyzeTransactions runs them in registration order and takes
+// care of dedup, ring IDs and pattern tagging, so in-house typologies
+// can be added with registerDetector() without touching this file.
+// =====================================================
+export interface GraphContext {
+  transactions: Transaction[];
+  allAccounts: Set<string>;
+  adj: AdjacencyList;
+  accountStats: Map<string, AccountStat>;
+  dwellProfiles: Map<string, DwellProfile>;
+  config: AnalysisConfig;
+  // Rings accepted from detectors that ran earlier
+  rings: readonly FraudRing[];
+}
+
+export interface RingMember {
+  account_id: string;
+  role: MemberRole;
+  // Tags added to the account's detected_patterns; empty for members
+  // that belong to the ring without being flagged by it
+  patterns: string[];
+}
+
+export interface RingCandidate {
+  pattern_type: string;
+  members: RingMember[];
+  risk_score: number;
+  // Hub activity is clustered in time (earns the temporal bonus)
+  temporal?: boolean;
+  transaction_ids?: string[];
+  amount_profile?: AmountRetentionProfile;
+}
+
+export interface Detector {
+  id: string;
+  // Points added to the suspicion score of every account its rings flag
+  // (once per account, however many rings), itemised under the detector
+  // ID. The built-in detectors are weighted through ScoringWeights instead.
+  score?: { weight: number; description: string };
+  // An array, or a generator that yields candidates as they are found
+  // (the analysis then reports a running count while the detector runs).
+  // A generator may also yield undefined while it works without finding
+  // anything, so the analysis can pause and report between candidates.
+  detect(context: GraphContext): Iterable<RingCandidate | undefined>;
+}
+
+function membersWithRole(ring: FraudRing, role: MemberRole): string[] {
+  return ring.member_accounts.filter(id => ring.member_roles[id] === role);
+}
+
+const cycleDetector: Detector = {
+  id: "cycle",
+  // Yields each cycle as it is found, for progress reporting
+  *detect({ adj, allAccounts, config }) {
+    for (const structuralCycle of detectCycles(adj, allAccounts, config.cycles)) {
+      let cycle = structuralCycle;
+      let temporalTransactions: Transaction[] | undefined;
+
+      // Temporal mode: drop loops that cannot happen in time order
+      if (config.cycles.temporal) {
+        const temporalPath = findTemporalCyclePath(structuralCycle, adj, config.cycles.temporalWindowMs);
+        if (!temporalPath) continue;
+        cycle = temporalPath.members;
+        temporalTransactions = temporalPath.transactions;
+      }
+
+      // Temporal cycles use the concrete path, otherwise all flow per hop
+      const hopAmounts = temporalTransactions
+        ? temporalTransactions.map(tx => tx.amount)
+        : cycle.map((from, i) => sumEdgeAmount(adj, from, cycle[(i + 1) % cycle.length]));
+      const amountProfile = buildAmountProfile([...cycle, cycle[0]], hopAmounts);
+
+      yield {
+        pattern_type: "cycle",
+        members: cycle.map(account => ({
+          account_id: account,
+          role: "intermediary",
+          patterns: [`cycle_length_${cycle.length}`],
+        })),
+        risk_score: 55.0 + cycle.length * 5.0 + amountProfile.conservation * 30.0,
+        ...(temporalTransactions && {
+          transaction_ids: temporalTransactions.map(tx => tx.transaction_id),
+        }),
+        amount_profile: amountProfile,
+      };
+    }
+  },
+};
+
+const smurfingDetector: Detector = {
+  id: "smurfing",
+  *detect({ transactions, config }) {
+    for (const hit of detectSmurfing(transactions, config.smurfing)) {
+      if (!hit) {
+        yield;
+        continue;
+      }
+      const pattern = hit.direction === "in" ? "fan_in" : "fan_out";
+      yield {
+        pattern_type: pattern,
+        members: [
+          { account_id: hit.accountId, role: "hub", patterns: [pattern] },
+          ...hit.counterparties.map(id => ({
+            account_id: id,
+            role: hit.direction === "in" ? ("sender" as const) : ("terminal" as const),
+            patterns: [pattern],
+          })),
+        ],
+        risk_score: 60.0 + (hit.temporal ? 25.0 : 10.0) + hit.counterparties.length * 0.5,
+        temporal: hit.temporal,
+      };
+    }
+  },
+};
+
+const scatterGatherDetector: Detector = {
+  id: "scatter_gather",
+  *detect({ adj, rings, config }) {
+    // Built on the fan-out and fan-in rings accepted so far
+    const fanOutReceivers = new Map<string, string[]>();
+    const fanInCollectors = new Set<string>();
+    for (const ring of rings) {
+      if (ring.pattern_type === "fan_out") {
+        for (const hub of membersWithRole(ring, "hub")) {
+          fanOutReceivers.set(hub, membersWithRole(ring, "terminal"));
+        }
+      } else if (ring.pattern_type === "fan_in") {
+        for (const hub of membersWithRole(ring, "hub")) fanInCollectors.add(hub);
+      }
+    }
+
+    for (const hit of detectScatterGather(adj, fanOutReceivers, fanInCollectors, config.scatterGather)) {
+      if (!hit) {
+        yield;
+        continue;
+      }
+      yield {
+        pattern_type: "scatter_gather",
+        members: [
+          { account_id: hit.source, role: "source", patterns: ["scatter_gather"] },
+          ...hit.intermediaries.map(id => ({ account_id: id, role: "intermediary" as const, patterns: ["scatter_gather"] })),
+          // On a round trip the source is listed once, in its source role
+          ...(hit.collector !== hit.source
+            ? [{ account_id: hit.collector, role: "collector" as const, patterns: ["scatter_gather"] }]
+            : []),
+        ],
+        risk_score: 70.0 + hit.intermediaries.length * 2.0,
+      };
+    }
+  },
+};
+
+const structuringDetector: Detector = {
+  id: "structuring",
+  *detect({ transactions, config }) {
+    for (const hit of detectStructuring(transactions, config.structuring)) {
+      if (!hit) {
+        yield;
+        continue;
+      }
+      yield {
+        pattern_type: "structuring",
+        members: [
+          { account_id: hit.accountId, role: "hub", patterns: ["structuring"] },
+          ...hit.counterparties.map(id => ({
+            account_id: id,
+            role: hit.direction === "in" ? ("sender" as const) : ("terminal" as const),
+            patterns: ["structuring"],
+          })),
+        ],
+        risk_score: 55.0 + hit.transactions.length * 5.0,
+        transaction_ids: hit.transactions.map(tx => tx.transaction_id),
+      };
+    }
+  },
+};
+
+const shellNetworkDetector: Detector = {
+  id: "shell_network",
+  *detect({ adj, accountStats, rings, config }) {
+    // Cycle nodes are excluded from shell classification
+    const cycleNodes = new Set<string>();
+    for (const ring of rings) {
+      if (ring.pattern_type === "cycle") ring.member_accounts.forEach(id => cycleNodes.add(id));
+    }
+
+    const chains = yield* detectShellNetworks(adj, accountStats, cycleNodes, config.shellNetworks);
+    for (const chain of chains) {
+      const amountProfile = buildAmountProfile(
+        chain,
+        chain.slice(1).map((to, i) => sumEdgeAmount(adj, chain[i], to))
+      );
+
+      yield {
+        pattern_type: "shell_network",
+        members: chain.map((account, i) => ({
+          account_id: account,
+          role: i === 0 ? ("sender" as const) : i === chain.length - 1 ? ("terminal" as const) : ("intermediary" as const),
+          patterns: ["shell_network"],
+        })),
+        risk_score: 40.0 + chain.length * 8.0 + amountProfile.conservation * 20.0,
+        amount_profile: amountProfile,
+      };
+    }
+  },
+};
+
+const passThroughDetector: Detector = {
+  id: "rapid_pass_through",
+  *detect({ dwellProfiles, config }) {
+    for (const [accountId, profile] of dwellProfiles) {
+      yield;
+      if (profile.inflowCount < config.passThrough.minInflows) continue;
+      if (profile.forwardedWithin24hPct < config.passThrough.minForwardedPct) continue;
+
+      // Only the pass-through account is flagged; its counterparties are
+      // ring members so the flow can be traced
+      const roles = new Map<string, MemberRole>([[accountId, "intermediary"]]);
+      for (const id of profile.upstream) if (!roles.has(id)) roles.set(id, "sender");
+      for (const id of profile.downstream) if (!roles.has(id)) roles.set(id, "terminal");
+
+      yield {
+        pattern_type: "rapid_pass_through",
+        members: Array.from(roles, ([id, role]) => ({
+          account_id: id,
+          role,
+          patterns: id === accountId ? ["rapid_pass_through"] : [],
+        })),
+        risk_score: 50.0 + profile.forwardedWithin24hPct * 0.4,
+      };
+    }
+  },
+};
+
+// Built-in detectors, in execution order. Later detectors can build on
+// the rings of earlier ones (shell networks skip cycle nodes,
+// scatter-gather links fan-out and fan-in rings).
+const detectorRegistry: Detector[] = [
+  cycleDetector,
+  smurfingDetector,
+  scatterGatherDetector,
+  structuringDetector,
+  shellNetworkDetector,
+  passThroughDetector,
+];
+
+export function registerDetector(detector: Detector): void {
+  if (detectorRegistry.some(d => d.id === detector.id)) {
+    throw new Error(`Detector already registered: ${detector.id}`);
+  }
+  detectorRegistry.push(detector);
+}
+
+export function unregisterDetector(id: string): boolean {
+  const idx = detectorRegistry.findIndex(d => d.id === id);
+  if (idx === -1) return false;
+  detectorRegistry.splice(idx, 1);
+  return true;
+}
+
+export function getRegisteredDetectors(): readonly Detector[] {
+  return detectorRegistry;
+}
+
 // =====================================================
 // Suspicion Score Calculation
 // Returns a float between 0.0 and 100.0
 // =====================================================
+export interface ScoringWeights {
+  cycle: number;
+  multipleCycleBonus: number; // per additional cycle
+  maxMultipleCycleBonuses: number;
+  fanIn: number;
+  fanOut: number;
+  shellNetwork: number;
+  structuring: number;
+  rapidPassThrough: number;
+  scatterGather: number;
+  temporal: number;
+  flowRatio: number;
+  flowRatioThreshold: number; // min(sent, received) / max(sent, received)
+}
+
+const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  cycle: 35.0,
+  multipleCycleBonus: 10.0,
+  maxMultipleCycleBonuses: 3,
+  fanIn: 25.0,
+  fanOut: 25.0,
+  shellNetwork: 20.0,
+  structuring: 20.0,
+  rapidPassThrough: 15.0,
+  scatterGather: 15.0,
+  temporal: 15.0,
+  flowRatio: 10.0,
+  flowRatioThreshold: 0.7,
+};
+
+// Pattern tags scored at a flat weight, in breakdown order
+const PATTERN_SCORE_FACTORS: { pattern: string; weight: keyof ScoringWeights; description: string }[] = [
+  { pattern: "fan_in", weight: "fanIn", description: "Fan-in smurfing: many senders to one receiver" },
+  { pattern: "fan_out", weight: "fanOut", description: "Fan-out smurfing: one sender to many receivers" },
+  { pattern: "shell_network", weight: "shellNetwork", description: "Part of a layered shell chain" },
+  { pattern: "structuring", weight: "structuring", description: "Repeated amounts just below the reporting threshold" },
+  { pattern: "rapid_pass_through", weight: "rapidPassThrough", description: "Forwards most received funds within 24h" },
+  { pattern: "scatter_gather", weight: "scatterGather", description: "Part of a scatter-gather typology" },
+];
+
 function calculateSuspicionScore(
   accountId: string,
   patterns: string[],
-  accountStats: ReturnType<typeof computeAccountStats>,
-  cycleCount: number,
-  isSmurfHub: boolean,
-  isShellNode: boolean,
-  temporalFlag: boolean
-): number {
-  let score = 0.0;
+  accountStats: Map<string, AccountStat>,
+  taggedRings: FraudRing[],
+  temporalRingIds: string[],
+  weights: ScoringWeights,
+  detectorOf: (ringId: string) => Detector
+): { score: number; breakdown: ScoreContribution[] } {
+  const breakdown: ScoreContribution[] = [];
+  const ringIdsOf = (patternType: string) =>
+    taggedRings.filter(ring => ring.pattern_type === patternType).map(ring => ring.ring_id);
 
   // Base pattern scores
   if (patterns.some(p => p.startsWith("cycle_length_"))) {
-    score += 35.0;
-    score += Math.min(cycleCount - 1, 3) * 10.0;
+    const cycleRingIds = ringIdsOf("cycle");
+    breakdown.push({
+      factor: "cycle",
+      points: weights.cycle,
+      description: "Member of a circular fund routing cycle",
+      ring_ids: cycleRingIds,
+      count: cycleRingIds.length,
+    });
+
+    const extraCycles = Math.min(cycleRingIds.length - 1, weights.maxMultipleCycleBonuses);
+    if (extraCycles > 0) {
+      breakdown.push({
+        factor: "multiple_cycles",
+        points: extraCycles * weights.multipleCycleBonus,
+        description: `Member of ${cycleRingIds.length} cycles`,
+        ring_ids: cycleRingIds,
+        count: cycleRingIds.length,
+      });
+    }
   }
 
-  if (patterns.includes("fan_in")) score += 25.0;
-  if (patterns.includes("fan_out")) score += 25.0;
-  if (patterns.includes("shell_network")) score += 20.0;
+  for (const { pattern, weight, description } of PATTERN_SCORE_FACTORS) {
+    if (!patterns.includes(pattern)) continue;
+    const ringIds = ringIdsOf(pattern);
+    breakdown.push({ factor: pattern, points: weights[weight], description, ring_ids: ringIds, count: ringIds.length });
+  }
+
+  // Detectors that carry their own weight, in registration order
+  const detectorRingIds = new Map<Detector, string[]>();
+  for (const ring of taggedRings) {
+    const detector = detectorOf(ring.ring_id);
+    if (!detector.score) continue;
+    if (!detectorRingIds.has(detector)) detectorRingIds.set(detector, []);
+    detectorRingIds.get(detector)!.push(ring.ring_id);
+  }
+  for (const detector of detectorRegistry) {
+    const ringIds = detectorRingIds.get(detector);
+    if (!ringIds || !detector.score) continue;
+    breakdown.push({
+      factor: detector.id,
+      points: detector.score.weight,
+      description: detector.score.description,
+      ring_ids: ringIds,
+      count: ringIds.length,
+    });
+  }
 
   // Temporal analysis bonus
-  if (temporalFlag) score += 15.0;
+  if (temporalRingIds.length > 0) {
+    breakdown.push({
+      factor: "temporal",
+      points: weights.temporal,
+      description: "Smurfing activity clustered within the time window",
+      ring_ids: temporalRingIds,
+    });
+  }
 
   // Transaction pattern analysis
   const stats = accountStats.get(accountId);
@@ -415,28 +1434,188 @@ function calculateSuspicionScore(
       const maxFlow = Math.max(stats.totalSent, stats.totalReceived);
       if (maxFlow > 0) {
         const flowRatio = Math.min(stats.totalSent, stats.totalReceived) / maxFlow;
-        if (flowRatio > 0.7 && flowRatio < 1.0) {
-          score += 10.0; // Near-equal in/out suggests pass-through
+        if (flowRatio > weights.flowRatioThreshold && flowRatio < 1.0) {
+          // Near-equal in/out suggests pass-through
+          breakdown.push({
+            factor: "flow_ratio",
+            points: weights.flowRatio,
+            description: "Total sent and total received are nearly equal",
+            ring_ids: [],
+            ratio: Math.round(flowRatio * 1000) / 1000,
+          });
         }
       }
     }
   }
 
   // Ensure float and cap at 100.0
-  const capped = Math.min(score, 100.0);
+  const total = breakdown.reduce((sum, c) => sum + c.points, 0);
+  if (total > 100.0) {
+    breakdown.push({ factor: "cap", points: 100.0 - total, description: "Score capped at 100", ring_ids: [] });
+  }
+  const capped = Math.min(total, 100.0);
+
   // Round to 1 decimal place, ensure float format
-  return Math.round(capped * 10) / 10;
+  return { score: Math.round(capped * 10) / 10, breakdown };
 }
 
 // =====================================================
 // Main Analysis Function
 // =====================================================
-export function analyzeTransactions(transactions: Transaction[]): AnalysisResult {
-  const startTime = performance.now();
+export interface AnalysisConfig {
+  cycles: CycleDetectionOptions;
+  smurfing: SmurfingOptions;
+  shellNetworks: ShellNetworkOptions;
+  structuring: StructuringOptions;
+  passThrough: PassThroughOptions;
+  scatterGather: ScatterGatherOptions;
+  scoring: ScoringWeights;
+  dataQuality: DataQualityOptions;
+  timestamps: TimestampOptions;
+}
+
+// Any subset of the config; missing values fall back to the defaults
+export type AnalysisConfigInput = {
+  [Section in keyof AnalysisConfig]?: Partial<AnalysisConfig[Section]>;
+};
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  cycles: DEFAULT_CYCLE_OPTIONS,
+  smurfing: DEFAULT_SMURFING_OPTIONS,
+  shellNetworks: DEFAULT_SHELL_NETWORK_OPTIONS,
+  structuring: DEFAULT_STRUCTURING_OPTIONS,
+  passThrough: DEFAULT_PASS_THROUGH_OPTIONS,
+  scatterGather: DEFAULT_SCATTER_GATHER_OPTIONS,
+  scoring: DEFAULT_SCORING_WEIGHTS,
+  dataQuality: DEFAULT_DATA_QUALITY_OPTIONS,
+  timestamps: DEFAULT_TIMESTAMP_OPTIONS,
+};
+
+export function resolveAnalysisConfig(input: AnalysisConfigInput = {}): AnalysisConfig {
+  return {
+    cycles: { ...DEFAULT_ANALYSIS_CONFIG.cycles, ...input.cycles },
+    smurfing: { ...DEFAULT_ANALYSIS_CONFIG.smurfing, ...input.smurfing },
+    shellNetworks: { ...DEFAULT_ANALYSIS_CONFIG.shellNetworks, ...input.shellNetworks },
+    structuring: resolveStructuringOptions(input.structuring),
+    passThrough: { ...DEFAULT_ANALYSIS_CONFIG.passThrough, ...input.passThrough },
+    scatterGather: { ...DEFAULT_ANALYSIS_CONFIG.scatterGather, ...input.scatterGather },
+    scoring: { ...DEFAULT_ANALYSIS_CONFIG.scoring, ...input.scoring },
+    dataQuality: { ...DEFAULT_ANALYSIS_CONFIG.dataQuality, ...input.dataQuality },
+    timestamps: { ...DEFAULT_ANALYSIS_CONFIG.timestamps, ...input.timestamps },
+  };
+}
+
+// =====================================================
+// Stage Reporting
+// The analysis runs as a sequence of stages (normalize, data_quality,
+// adjacency, one per detector, scoring, output) and reports when each
+// starts and completes, with a running count while long ones run. The
+// completed stages are also kept as timings for the summary.
+// =====================================================
+export interface AnalysisStageEvent {
+  stage: string; // stage name, or the detector ID for detection stages
+  status: "started" | "progress" | "completed";
+  // Items so far: transactions, accounts, or candidate rings found
+  count: number;
+  elapsed_ms: number; // since the stage started
+}
+
+export interface AnalysisObserver {
+  onStage?: (event: AnalysisStageEvent) => void;
+  // Checked between stages and while detectors run
+  signal?: AbortSignal;
+}
+
+// Minimum time between progress events, and between the pauses
+// analyzeTransactionsAsync makes to let other work run
+const STAGE_PROGRESS_INTERVAL_MS = 100;
+
+// Heap in use, where the runtime reports it (Node does, browsers do not)
+function heapUsedBytes(): number | null {
+  return typeof process !== "undefined" && typeof process.memoryUsage === "function"
+    ? process.memoryUsage().heapUsed
+    : null;
+}
+
+function createStageReporter(onStage: AnalysisObserver["onStage"]) {
+  let stage = "";
+  let startedAt = 0;
+  let lastReportAt = 0;
+  let peakHeap: number | null = null;
+  const timings: StageTiming[] = [];
+
+  const sampleHeap = () => {
+    const heap = heapUsedBytes();
+    if (heap !== null && (peakHeap === null || heap > peakHeap)) peakHeap = heap;
+  };
+
+  const emit = (status: AnalysisStageEvent["status"], count: number) =>
+    onStage?.({ stage, status, count, elapsed_ms: Math.round(performance.now() - startedAt) });
 
+  return {
+    timings,
+    start(name: string) {
+      stage = name;
+      startedAt = lastReportAt = performance.now();
+      peakHeap = null;
+      sampleHeap();
+      emit("started", 0);
+    },
+    // True when an interval has passed since the last report (and pause)
+    progress(count: number): boolean {
+      const now = performance.now();
+      if (now - lastReportAt < STAGE_PROGRESS_INTERVAL_MS) return false;
+      lastReportAt = now;
+      sampleHeap();
+      emit("progress", count);
+      return true;
+    },
+    complete(count: number) {
+      sampleHeap();
+      timings.push({
+        stage,
+        elapsed_ms: Math.round((performance.now() - startedAt) * 10) / 10,
+        count,
+        peak_heap_bytes: peakHeap,
+      });
+      emit("completed", count);
+    },
+  };
+}
+
+// The analysis as a generator that yields wherever it can pause: after
+// each stage and periodically while a detector produces candidates.
+// Throws DataQualityError when a "reject" data-quality policy is triggered.
+function* analysisSteps(
+  input: OwnedTransactionInput[],
+  configInput: AnalysisConfigInput,
+  onStage: AnalysisObserver["onStage"]
+): Generator<void, AnalysisResult, void> {
+  const startTime = performance.now();
+  const config = resolveAnalysisConfig(configInput);
+  const stages = createStageReporter(onStage);
+
+  // ---- Timestamp Normalisation ----
+  stages.start("normalize");
+  const normalized = normalizeTimestamps(input, config.timestamps);
+  stages.complete(normalized.transactions.length);
+  yield;
+
+  // ---- Data Quality ----
+  stages.start("data_quality");
+  const quality = assessDataQuality(normalized.transactions, config.dataQuality, normalized.format);
+  if (quality.report.rejected) throw new DataQualityError(quality.report);
+  const transactions = quality.transactions;
+  stages.complete(transactions.length);
+  yield;
+
+  stages.start("adjacency");
   const allAccounts = getAllAccounts(transactions);
   const adj = buildAdjacencyList(transactions);
   const accountStats = computeAccountStats(transactions);
+  const dwellProfiles = computeDwellTimes(transactions);
+  stages.complete(allAccounts.size);
+  yield;
 
   // Track patterns per account
   const accountPatterns = new Map<string, Set<string>>();
@@ -446,6 +1625,13 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
   // Ring deduplication set: normalized key -> true
   const ringDeduplicationSet = new Set<string>();
 
+  // Detector that found each ring
+  const ringDetectors = new Map<string, Detector>();
+
+  // Rings each account is tagged by, and time-clustered rings it is the hub of
+  const accountTaggedRings = new Map<string, string[]>();
+  const accountTemporalRings = new Map<string, string[]>();
+
   function addPattern(accountId: string, pattern: string) {
     if (!accountPatterns.has(accountId)) accountPatterns.set(accountId, new Set());
     accountPatterns.get(accountId)!.add(pattern);
@@ -456,6 +1642,12 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
     accountRings.get(accountId)!.add(ringId);
   }
 
+  function appendTo(index: Map<string, string[]>, accountId: string, ringId: string) {
+    if (!index.has(accountId)) index.set(accountId, []);
+    const ringIds = index.get(accountId)!;
+    if (!ringIds.includes(ringId)) ringIds.push(ringId);
+  }
+
   let ringCounter = 1;
 
   // Helper to generate sequential ring IDs
@@ -465,158 +1657,113 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
     return id;
   }
 
-  // ---- Detect Cycles ----
-  const cycles = detectCycles(adj, allAccounts);
-  const accountCycleCounts = new Map<string, number>();
-
-  // Collect all nodes in cycles for shell network exclusion
-  const cycleNodes = new Set<string>();
-
-  for (const cycle of cycles) {
-    // Deduplication: check if this set of members + pattern already exists
-    const dedupKey = makeRingDeduplicationKey(cycle, "cycle");
-    if (ringDeduplicationSet.has(dedupKey)) continue;
-    ringDeduplicationSet.add(dedupKey);
-
-    const ringId = nextRingId();
-
-    for (const account of cycle) {
-      addPattern(account, `cycle_length_${cycle.length}`);
-      addRing(account, ringId);
-      accountCycleCounts.set(account, (accountCycleCounts.get(account) || 0) + 1);
-      cycleNodes.add(account);
-    }
-
-    const riskScore = Math.min(70.0 + cycle.length * 5.0, 100.0);
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: [...cycle],
-      pattern_type: "cycle",
-      risk_score: Math.round(riskScore * 10) / 10,
-    });
-  }
-
-  // ---- Detect Smurfing ----
-  const { fanInAccounts, fanOutAccounts } = detectSmurfing(transactions);
-
-  for (const [accountId, data] of fanInAccounts) {
-    const members = [accountId, ...data.senders];
-
-    // Deduplication check
-    const dedupKey = makeRingDeduplicationKey(members, "fan_in");
-    if (ringDeduplicationSet.has(dedupKey)) continue;
-    ringDeduplicationSet.add(dedupKey);
-
-    const ringId = nextRingId();
-
-    addPattern(accountId, "fan_in");
-    addRing(accountId, ringId);
-
-    for (const sender of data.senders) {
-      addPattern(sender, "fan_in");
-      addRing(sender, ringId);
-    }
-
-    const riskScore = Math.min(60.0 + (data.temporal ? 25.0 : 10.0) + data.senders.length * 0.5, 100.0);
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: members,
-      pattern_type: "fan_in",
-      risk_score: Math.round(riskScore * 10) / 10,
-    });
-  }
-
-  for (const [accountId, data] of fanOutAccounts) {
-    const members = [accountId, ...data.receivers];
-
-    // Deduplication check
-    const dedupKey = makeRingDeduplicationKey(members, "fan_out");
-    if (ringDeduplicationSet.has(dedupKey)) continue;
-    ringDeduplicationSet.add(dedupKey);
-
-    const ringId = nextRingId();
+  const context: GraphContext = {
+    transactions,
+    allAccounts,
+    adj,
+    accountStats,
+    dwellProfiles,
+    config,
+    rings: fraudRings,
+  };
 
-    addPattern(accountId, "fan_out");
-    addRing(accountId, ringId);
+  // ---- Run Detectors ----
+  for (const detector of detectorRegistry) {
+    stages.start(detector.id);
+    let found = 0;
+    for (const candidate of detector.detect(context)) {
+      if (candidate) found++;
+      if (stages.progress(found)) yield;
+      if (!candidate) continue;
+      const members = candidate.members.map(m => m.account_id);
+
+      // Deduplication: check if this set of members + pattern already exists
+      const dedupKey = makeRingDeduplicationKey(members, candidate.pattern_type);
+      if (ringDeduplicationSet.has(dedupKey)) continue;
+      ringDeduplicationSet.add(dedupKey);
+
+      const ringId = nextRingId();
+      ringDetectors.set(ringId, detector);
+      const memberRoles: Record<string, MemberRole> = {};
+
+      for (const member of candidate.members) {
+        for (const pattern of member.patterns) addPattern(member.account_id, pattern);
+        addRing(member.account_id, ringId);
+        if (member.patterns.length > 0) appendTo(accountTaggedRings, member.account_id, ringId);
+        // First role wins when an account is listed twice (e.g. self-transfers)
+        if (!(member.account_id in memberRoles)) memberRoles[member.account_id] = member.role;
+        if (candidate.temporal && member.role === "hub") {
+          appendTo(accountTemporalRings, member.account_id, ringId);
+        }
+      }
 
-    for (const receiver of data.receivers) {
-      addPattern(receiver, "fan_out");
-      addRing(receiver, ringId);
+      const riskScore = Math.min(candidate.risk_score, 100.0);
+      fraudRings.push({
+        ring_id: ringId,
+        member_accounts: members,
+        pattern_type: candidate.pattern_type,
+        risk_score: Math.round(riskScore * 10) / 10,
+        ...(candidate.transaction_ids && { transaction_ids: candidate.transaction_ids }),
+        ...(candidate.amount_profile && { amount_profile: candidate.amount_profile }),
+        member_roles: memberRoles,
+      });
     }
-
-    const riskScore = Math.min(60.0 + (data.temporal ? 25.0 : 10.0) + data.receivers.length * 0.5, 100.0);
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: members,
-      pattern_type: "fan_out",
-      risk_score: Math.round(riskScore * 10) / 10,
-    });
+    stages.complete(found);
+    yield;
   }
 
-  // ---- Detect Shell Networks ----
-  // Pass cycleNodes so shell detection excludes cycle-classified nodes
-  const shellChains = detectShellNetworks(adj, accountStats, cycleNodes);
-
-  for (const chain of shellChains) {
-    // Deduplication check
-    const dedupKey = makeRingDeduplicationKey(chain, "shell_network");
-    if (ringDeduplicationSet.has(dedupKey)) continue;
-    ringDeduplicationSet.add(dedupKey);
+  const ringsById = new Map(fraudRings.map(ring => [ring.ring_id, ring]));
 
-    const ringId = nextRingId();
-
-    for (const account of chain) {
-      addPattern(account, "shell_network");
-      addRing(account, ringId);
-    }
-
-    const riskScore = Math.min(50.0 + chain.length * 8.0, 100.0);
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: [...chain],
-      pattern_type: "shell_network",
-      risk_score: Math.round(riskScore * 10) / 10,
-    });
+  // Highest ring risk first; ties keep detection order
+  function sortRingIdsByRisk(ringIds: Iterable<string>): string[] {
+    return Array.from(ringIds).sort(
+      (a, b) => ringsById.get(b)!.risk_score - ringsById.get(a)!.risk_score
+    );
   }
 
   // ---- Build Suspicious Accounts ----
+  stages.start("scoring");
   const suspiciousAccounts: SuspiciousAccount[] = [];
 
   for (const [accountId, patterns] of accountPatterns) {
     const rings = accountRings.get(accountId);
     if (!rings || rings.size === 0) continue;
 
-    const isFanIn = fanInAccounts.has(accountId);
-    const isFanOut = fanOutAccounts.has(accountId);
-    const temporalFlag =
-      (isFanIn && fanInAccounts.get(accountId)!.temporal) ||
-      (isFanOut && fanOutAccounts.get(accountId)!.temporal);
+    const taggedRings = (accountTaggedRings.get(accountId) || []).map(id => ringsById.get(id)!);
 
-    const score = calculateSuspicionScore(
+    const { score, breakdown } = calculateSuspicionScore(
       accountId,
       Array.from(patterns),
       accountStats,
-      accountCycleCounts.get(accountId) || 0,
-      isFanIn || isFanOut,
-      patterns.has("shell_network"),
-      temporalFlag
+      taggedRings,
+      accountTemporalRings.get(accountId) || [],
+      config.scoring,
+      ringId => ringDetectors.get(ringId)!
     );
 
-    // Use the first ring as primary
-    const primaryRing = Array.from(rings)[0];
+    const ringIds = sortRingIdsByRisk(rings);
+    const ringRoles: Record<string, MemberRole> = {};
+    for (const ringId of ringIds) ringRoles[ringId] = ringsById.get(ringId)!.member_roles[accountId];
 
     suspiciousAccounts.push({
       account_id: accountId,
       suspicion_score: score,
       detected_patterns: Array.from(patterns),
-      ring_id: primaryRing,
+      // Rings the account is only a counterparty in cannot be primary
+      ring_id: sortRingIdsByRisk(accountTaggedRings.get(accountId) || ringIds)[0],
+      ring_ids: ringIds,
+      ring_roles: ringRoles,
+      score_breakdown: breakdown,
     });
   }
 
   // Sort suspicious accounts by suspicion_score descending
   suspiciousAccounts.sort((a, b) => b.suspicion_score - a.suspicion_score);
+  stages.complete(suspiciousAccounts.length);
+  yield;
 
   // ---- Build Graph Nodes ----
+  stages.start("output");
   const suspiciousSet = new Set(suspiciousAccounts.map(a => a.account_id));
   const nodes: GraphNode[] = [];
 
@@ -625,16 +1772,20 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
     const rings = accountRings.get(accountId);
     const patterns = accountPatterns.get(accountId);
     const sa = suspiciousAccounts.find(a => a.account_id === accountId);
+    const dwell = dwellProfiles.get(accountId);
 
     nodes.push({
       id: accountId,
       suspicious: suspiciousSet.has(accountId),
-      ring_ids: rings ? Array.from(rings) : [],
+      ring_ids: rings ? sortRingIdsByRisk(rings) : [],
       patterns: patterns ? Array.from(patterns) : [],
       total_sent: stats?.totalSent || 0,
       total_received: stats?.totalReceived || 0,
       transaction_count: stats?.totalTransactions || 0,
       suspicion_score: sa?.suspicion_score || 0.0,
+      median_dwell_hours: dwell?.medianHours ?? null,
+      p90_dwell_hours: dwell?.p90Hours ?? null,
+      forwarded_within_24h_pct: dwell?.forwardedWithin24hPct || 0,
     });
   }
 
@@ -645,7 +1796,12 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
     amount: tx.amount,
     timestamp: tx.timestamp,
     transaction_id: tx.transaction_id,
+    ...(tx.currency && { currency: tx.currency }),
+    ...(tx.metadata && { metadata: tx.metadata }),
+    ...(tx.source_file && { source_file: tx.source_file }),
+    ...(quality.flags.has(tx) && { quality_flags: quality.flags.get(tx) }),
   }));
+  stages.complete(nodes.length + edges.length);
 
   // ---- Compute processing time properly ----
   const endTime = performance.now();
@@ -660,8 +1816,53 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
       suspicious_accounts_flagged: suspiciousAccounts.length,
       fraud_rings_detected: fraudRings.length,
       processing_time_seconds: processingTimeSeconds,
+      stages: stages.timings,
     },
     nodes,
     edges,
+    config,
+    data_quality: quality.report,
   };
 }
+
+/**
+ * Runs the full analysis on a set of transactions.
+ *
+ * Takes ownership of `input`: timestamp normalisation sets `epoch_ms` on
+ * every transaction object in place rather than copying them, so pass
+ * copies if the objects are used again afterwards.
+ *
+ * @throws DataQualityError when a "reject" data-quality policy is triggered
+ */
+export function analyzeTransactions(
+  input: OwnedTransactionInput[],
+  configInput: AnalysisConfigInput = {},
+  observer: AnalysisObserver = {}
+): AnalysisResult {
+  const steps = analysisSteps(input, configInput, observer.onStage);
+  for (;;) {
+    observer.signal?.throwIfAborted();
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * Same as {@link analyzeTransactions}, including taking ownership of
+ * `input`, but pauses between stages (and every STAGE_PROGRESS_INTERVAL_MS
+ * during detection) so that a server can keep answering requests and
+ * flushing stage events while it runs.
+ */
+export async function analyzeTransactionsAsync(
+  input: OwnedTransactionInput[],
+  configInput: AnalysisConfigInput = {},
+  observer: AnalysisObserver = {}
+): Promise<AnalysisResult> {
+  const steps = analysisSteps(input, configInput, observer.onStage);
+  for (;;) {
+    observer.signal?.throwIfAborted();
+    const step = steps.next();
+    if (step.done) return step.value;
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
@@ -0,0 +1,281 @@
+// =====================================================
+// Ingest
+// Input formats accepted by POST /api/analyze and the parser for each.
+// Uploads may be gzip-compressed files or ZIP archives, and several
+// files may be uploaded at once; they are merged into one transaction
+// list with each transaction tagged with the file it came from.
+// =====================================================
+import type { AnalysisStageEvent, RowRejection, SourceFile, TransactionInput } from "@/lib/graph-engine";
+import { MAX_REPORTED_REJECTIONS, parseTransactionCsv, type CsvParseOptions } from "@/lib/csv-parser";
+import { parseTransactionJson, parseTransactionNdjson } from "@/lib/json-parser";
+import { parseTransactionIso20022 } from "@/lib/iso20022-parser";
+import { parseTransactionSwift } from "@/lib/swift-parser";
+import { readZip } from "@/lib/zip";
+
+export const INPUT_FORMATS = ["csv", "json", "ndjson", "iso20022", "swift"] as const;
+export type InputFormat = (typeof INPUT_FORMATS)[number];
+
+export const INPUT_FORMAT_LABELS: Record<InputFormat, string> = {
+  csv: "CSV",
+  json: "JSON array",
+  ndjson: "NDJSON",
+  iso20022: "ISO 20022 XML (camt.053, pain.001)",
+  swift: "SWIFT FIN (MT103, MT940)",
+};
+
+export const INPUT_FILE_EXTENSIONS: Record<InputFormat, string[]> = {
+  csv: [".csv", ".tsv", ".txt"],
+  json: [".json"],
+  ndjson: [".ndjson", ".jsonl"],
+  iso20022: [".xml"],
+  swift: [".fin", ".mt103", ".mt940", ".sta"],
+};
+
+// First entry is the type clients send raw bodies with
+export const INPUT_CONTENT_TYPES: Record<InputFormat, string[]> = {
+  csv: ["text/csv"],
+  json: ["application/json"],
+  ndjson: ["application/x-ndjson", "application/ndjson", "application/jsonl"],
+  iso20022: ["application/xml", "text/xml"],
+  swift: ["application/x-swift-fin"],
+};
+
+export type Compression = "gzip" | "zip";
+
+export const COMPRESSED_FILE_EXTENSIONS: Record<Compression, string[]> = {
+  gzip: [".gz"],
+  zip: [".zip"],
+};
+
+export const COMPRESSED_CONTENT_TYPES: Record<Compression, string[]> = {
+  gzip: ["application/gzip", "application/x-gzip"],
+  zip: ["application/zip", "application/x-zip-compressed"],
+};
+
+// Default upload size limit; MAX_UPLOAD_BYTES in the environment overrides it
+export const DEFAULT_MAX_UPLOAD_BYTES = 2 * 1024 ** 3;
+
+// JSON arrays, ISO 20022 and SWIFT files are parsed from one string, and
+// V8 strings stop at about 512 MiB, so each such file has a smaller limit
+// (MAX_DOCUMENT_BYTES in the environment overrides it). CSV and NDJSON
+// are parsed as they stream and only the upload limit applies to them.
+export const DOCUMENT_FORMATS: InputFormat[] = ["json", "iso20022", "swift"];
+export const DEFAULT_MAX_DOCUMENT_BYTES = 256 * 1024 ** 2;
+
+// A ZIP archive is read into memory to find its central directory, so it
+// has a smaller limit too (MAX_ZIP_BYTES in the environment overrides
+// it); the files inside are streamed out of it and metered as usual.
+// Larger uploads can be sent as gzip, which streams.
+export const DEFAULT_MAX_ZIP_BYTES = 256 * 1024 ** 2;
+
+export interface IngestResult {
+  transactions: TransactionInput[];
+  rejections: RowRejection[];
+  rejectedCount: number;
+}
+
+export interface UploadIngestResult extends IngestResult {
+  files: SourceFile[];
+}
+
+export interface UploadedFile {
+  name?: string; // absent for a raw request body sent without a file name
+  contentType?: string;
+  stream: ReadableStream<Uint8Array>;
+}
+
+export function isInputFormat(value: unknown): value is InputFormat {
+  return INPUT_FORMATS.includes(value as InputFormat);
+}
+
+export function inputFormatOfContentType(contentType: string): InputFormat | null {
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  return INPUT_FORMATS.find(format => INPUT_CONTENT_TYPES[format].includes(mediaType)) ?? null;
+}
+
+// A ".gz" suffix is looked through: "day.csv.gz" is CSV
+export function inputFormatOfFileName(fileName: string): InputFormat | null {
+  const name = fileName.toLowerCase().replace(/\.gz$/, "");
+  return INPUT_FORMATS.find(format => INPUT_FILE_EXTENSIONS[format].some(ext => name.endsWith(ext))) ?? null;
+}
+
+// CSV options only apply to CSV input. Formats read whole are held to
+// the document limit.
+export function parseTransactions(
+  input: ReadableStream<Uint8Array>,
+  format: InputFormat,
+  csvOptions: CsvParseOptions = {}
+): Promise<IngestResult> {
+  const source = DOCUMENT_FORMATS.includes(format)
+    ? createUploadMeter(maxDocumentBytes(), undefined, `${INPUT_FORMAT_LABELS[format]} file`)(input)
+    : input;
+  switch (format) {
+    case "csv":
+      return parseTransactionCsv(source, csvOptions);
+    case "json":
+      return parseTransactionJson(source);
+    case "ndjson":
+      return parseTransactionNdjson(source);
+    case "iso20022":
+      return parseTransactionIso20022(source);
+    case "swift":
+      return parseTransactionSwift(source);
+  }
+}
+
+export function compressionOf(file: Pick<UploadedFile, "name" | "contentType">): Compression | null {
+  const name = file.name?.toLowerCase() ?? "";
+  const mediaType = file.contentType?.split(";")[0].trim().toLowerCase() ?? "";
+  const compressions = Object.keys(COMPRESSED_FILE_EXTENSIONS) as Compression[];
+  return (
+    compressions.find(
+      c =>
+        COMPRESSED_FILE_EXTENSIONS[c].some(ext => name.endsWith(ext)) ||
+        COMPRESSED_CONTENT_TYPES[c].includes(mediaType)
+    ) ?? null
+  );
+}
+
+// Uncompressed files of an upload: the file itself, its gunzipped
+// content, or every file in a ZIP archive (hidden and macOS resource
+// fork entries skipped). Decompressed content goes through `meter`, so
+// that a small archive cannot expand past the upload limit; a ZIP
+// archive is read into memory whole, up to the ZIP limit.
+async function* expandUpload(
+  file: UploadedFile,
+  meter: (source: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>,
+  fromArchive = false
+): AsyncGenerator<UploadedFile> {
+  switch (compressionOf(file)) {
+    case "gzip":
+      // The name is kept as uploaded; format detection looks through ".gz"
+      yield { name: file.name, stream: meter(file.stream.pipeThrough(new DecompressionStream("gzip"))) };
+      return;
+    case "zip": {
+      const archive = file.name ?? "upload.zip";
+      const zipMeter = createUploadMeter(maxZipBytes(), undefined, "ZIP archive");
+      const entries = readZip(new Uint8Array(await new Response(zipMeter(file.stream)).arrayBuffer()));
+      const limit = maxUploadBytes();
+      for (const entry of entries) {
+        const baseName = entry.name.split("/").pop()!;
+        if (entry.name.startsWith("__MACOSX/") || baseName.startsWith(".")) continue;
+        if (entry.size > limit) throw new UploadTooLargeError(limit);
+        yield* expandUpload({ name: `${archive}/${entry.name}`, stream: entry.stream() }, meter, true);
+      }
+      return;
+    }
+    default:
+      yield fromArchive ? { ...file, stream: meter(file.stream) } : file;
+  }
+}
+
+// Parses every file of an upload in order and merges the results. The
+// format applies to all files when given; otherwise each file's is taken
+// from its name or content type. Unrecognised archive entries are
+// skipped (and listed); other unrecognised files are read as CSV.
+export async function parseUploadedFiles(
+  uploads: UploadedFile[],
+  format: InputFormat | null,
+  csvOptions: CsvParseOptions = {}
+): Promise<UploadIngestResult> {
+  const merged: UploadIngestResult = { transactions: [], rejections: [], rejectedCount: 0, files: [] };
+  // Decompressed bytes across all files of the upload
+  const meterDecompressed = createUploadMeter(maxUploadBytes());
+
+  for (const upload of uploads) {
+    const fromArchive = compressionOf(upload) === "zip";
+    for await (const file of expandUpload(upload, meterDecompressed)) {
+      const fileFormat =
+        format ??
+        (file.name ? inputFormatOfFileName(file.name) : null) ??
+        (file.contentType ? inputFormatOfContentType(file.contentType) : null) ??
+        (fromArchive ? null : "csv");
+      if (!fileFormat) {
+        await file.stream.cancel();
+        merged.files.push({ name: file.name!, format: null, transaction_count: 0, rejected_row_count: 0 });
+        continue;
+      }
+
+      const result = await parseTransactions(file.stream, fileFormat, csvOptions);
+      for (const tx of result.transactions) {
+        if (file.name) tx.source_file = file.name;
+        merged.transactions.push(tx);
+      }
+      for (const rejection of result.rejections) {
+        if (merged.rejections.length >= MAX_REPORTED_REJECTIONS) break;
+        merged.rejections.push(file.name ? { ...rejection, file: file.name } : rejection);
+      }
+      merged.rejectedCount += result.rejectedCount;
+      if (file.name) {
+        merged.files.push({
+          name: file.name,
+          format: fileFormat,
+          transaction_count: result.transactions.length,
+          rejected_row_count: result.rejectedCount,
+        });
+      }
+    }
+  }
+  return merged;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+export function maxUploadBytes(): number {
+  return limitFromEnv("MAX_UPLOAD_BYTES", DEFAULT_MAX_UPLOAD_BYTES);
+}
+
+export function maxDocumentBytes(): number {
+  return limitFromEnv("MAX_DOCUMENT_BYTES", DEFAULT_MAX_DOCUMENT_BYTES);
+}
+
+export function maxZipBytes(): number {
+  return limitFromEnv("MAX_ZIP_BYTES", DEFAULT_MAX_ZIP_BYTES);
+}
+
+// `subject` names what is too large: the upload, or one file of it
+export class UploadTooLargeError extends Error {
+  constructor(
+    public readonly limit: number,
+    subject = "Upload"
+  ) {
+    super(`${subject} exceeds the limit of ${limit.toLocaleString("en-US")} bytes`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+// Returns a function that passes upload streams through, reporting the
+// running byte count across all of them, and fails the stream that takes
+// the total past maxBytes with UploadTooLargeError
+export function createUploadMeter(
+  maxBytes: number,
+  onBytes?: (bytes: number) => void,
+  subject?: string
+): (source: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array> {
+  let bytes = 0;
+  return source =>
+    source.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          bytes += chunk.byteLength;
+          if (bytes > maxBytes) {
+            controller.error(new UploadTooLargeError(maxBytes, subject));
+            return;
+          }
+          onBytes?.(bytes);
+          controller.enqueue(chunk);
+        },
+      })
+    );
+}
+
+// Events of an analysis streamed as NDJSON (Accept: application/x-ndjson)
+export type AnalyzeStreamEvent =
+  | { type: "progress"; stage: "parse"; bytes: number; total: number | null }
+  | { type: "progress"; stage: "analyze"; transactions: number }
+  | ({ type: "stage" } & AnalysisStageEvent)
+  | { type: "result"; result: unknown }
+  | { type: "error"; status: number; body: Record<string, unknown> };
@@ -0,0 +1,197 @@
+// =====================================================
+// ISO 20022 Importer
+// Maps camt.053 bank statement entries and pain.001 credit transfer
+// instructions to transactions. Debtor and creditor accounts (IBAN, or
+// the proprietary account ID) become account IDs; EndToEndId becomes
+// the transaction ID. Entries that cannot be mapped are reported.
+// =====================================================
+import type { RowRejection, TransactionInput } from "@/lib/graph-engine";
+import { MAX_REPORTED_REJECTIONS, detectEncoding } from "@/lib/csv-parser";
+import { childAt, childrenNamed, parseXml, textAt, type XmlElement } from "@/lib/xml";
+import { createTransactionStore } from "@/lib/transaction-store";
+
+export type Iso20022MessageType = "camt.053" | "pain.001";
+
+export interface Iso20022ParseResult {
+  transactions: TransactionInput[];
+  rejections: RowRejection[]; // capped at MAX_REPORTED_REJECTIONS; line of the entry
+  rejectedCount: number;
+  messageType: Iso20022MessageType;
+}
+
+const AMOUNT_RE = /^\d+(?:\.\d+)?$/;
+
+// Placeholder senders use when there is no end-to-end reference
+const NOT_PROVIDED = "NOTPROVIDED";
+
+// Encoding from a byte-order mark or the XML declaration; UTF-8 otherwise
+function detectXmlEncoding(bytes: Uint8Array): string {
+  const fromBom = detectEncoding(bytes, "");
+  if (fromBom) return fromBom;
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 200));
+  const declared = /^<\?xml[^>]*encoding\s*=\s*["']([^"']+)["']/.exec(head)?.[1];
+  if (!declared) return "utf-8";
+  try {
+    return new TextDecoder(declared).encoding;
+  } catch {
+    throw new Error(`Unsupported XML encoding: ${declared}`);
+  }
+}
+
+function accountId(account: XmlElement | undefined): string | undefined {
+  const iban = textAt(account, "Id", "IBAN");
+  if (iban) return iban.replace(/\s+/g, "").toUpperCase();
+  return textAt(account, "Id", "Othr", "Id");
+}
+
+function amountOf(element: XmlElement | undefined): { amount: number; currency?: string } | undefined {
+  const text = element?.text.trim();
+  if (!element || !text || !AMOUNT_RE.test(text)) return undefined;
+  return { amount: Number(text), currency: element.attributes.Ccy };
+}
+
+// DtTm or Dt child, or the element's own date (older pain.001 versions)
+function dateOf(element: XmlElement | undefined): string | undefined {
+  return textAt(element, "DtTm") ?? textAt(element, "Dt") ?? (element?.text.trim() || undefined);
+}
+
+function createCollector() {
+  const store = createTransactionStore();
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  function reject(line: number, reason: string) {
+    rejectedCount++;
+    if (rejections.length < MAX_REPORTED_REJECTIONS) rejections.push({ line, reason });
+  }
+
+  // Records the transaction, or rejects it naming every missing field
+  function add(
+    line: number,
+    fields: {
+      transaction_id?: string;
+      sender_id?: string;
+      receiver_id?: string;
+      amount?: { amount: number; currency?: string };
+      timestamp?: string;
+    }
+  ) {
+    const missing = [
+      !fields.transaction_id && "EndToEndId",
+      !fields.sender_id && "debtor account",
+      !fields.receiver_id && "creditor account",
+      !fields.amount && "amount",
+      !fields.timestamp && "date",
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      reject(line, `Missing ${missing.join(", ")}`);
+      return;
+    }
+    store.add({
+      transaction_id: fields.transaction_id!,
+      sender_id: fields.sender_id!,
+      receiver_id: fields.receiver_id!,
+      amount: fields.amount!.amount,
+      timestamp: fields.timestamp!,
+      ...(fields.amount!.currency && { currency: fields.amount!.currency }),
+    });
+  }
+
+  return { add, reject, transactions: store.transactions, rejections, count: () => rejectedCount };
+}
+
+// camt.053: one transaction per entry detail. The statement account fills
+// in the side of the entry it is on (creditor for CRDT, debtor for DBIT).
+function mapStatement(message: XmlElement, collector: ReturnType<typeof createCollector>) {
+  for (const statement of childrenNamed(message, "Stmt")) {
+    const statementAccount = accountId(childAt(statement, "Acct"));
+
+    for (const entry of childrenNamed(statement, "Ntry")) {
+      const direction = textAt(entry, "CdtDbtInd");
+      if (direction !== "CRDT" && direction !== "DBIT") {
+        collector.reject(entry.line, "Missing or invalid CdtDbtInd");
+        continue;
+      }
+      const bookingDate = dateOf(childAt(entry, "BookgDt"));
+      const details = childrenNamed(entry, "NtryDtls").flatMap(d => childrenNamed(d, "TxDtls"));
+      if (details.length === 0) {
+        collector.reject(entry.line, "Entry has no transaction details to identify the counterparty");
+        continue;
+      }
+
+      for (const detail of details) {
+        const endToEndId = textAt(detail, "Refs", "EndToEndId");
+        const parties = childAt(detail, "RltdPties");
+        collector.add(detail.line, {
+          // Bank references stand in when the sender gave no end-to-end ID
+          transaction_id:
+            endToEndId && endToEndId !== NOT_PROVIDED
+              ? endToEndId
+              : textAt(detail, "Refs", "TxId") ?? textAt(detail, "Refs", "AcctSvcrRef"),
+          sender_id: accountId(childAt(parties, "DbtrAcct")) ?? (direction === "DBIT" ? statementAccount : undefined),
+          receiver_id: accountId(childAt(parties, "CdtrAcct")) ?? (direction === "CRDT" ? statementAccount : undefined),
+          amount:
+            amountOf(childAt(detail, "AmtDtls", "TxAmt", "Amt")) ??
+            amountOf(childAt(detail, "Amt")) ??
+            (details.length === 1 ? amountOf(childAt(entry, "Amt")) : undefined),
+          timestamp: bookingDate,
+        });
+      }
+    }
+  }
+}
+
+// pain.001: one transaction per credit transfer, dated by the requested
+// execution date of its payment information block
+function mapCreditTransfers(message: XmlElement, collector: ReturnType<typeof createCollector>) {
+  for (const payment of childrenNamed(message, "PmtInf")) {
+    const debtor = accountId(childAt(payment, "DbtrAcct"));
+    const executionDate = dateOf(childAt(payment, "ReqdExctnDt"));
+
+    for (const transfer of childrenNamed(payment, "CdtTrfTxInf")) {
+      const endToEndId = textAt(transfer, "PmtId", "EndToEndId");
+      collector.add(transfer.line, {
+        transaction_id:
+          endToEndId && endToEndId !== NOT_PROVIDED ? endToEndId : textAt(transfer, "PmtId", "InstrId"),
+        sender_id: debtor,
+        receiver_id: accountId(childAt(transfer, "CdtrAcct")),
+        amount: amountOf(childAt(transfer, "Amt", "InstdAmt")),
+        timestamp: executionDate,
+      });
+    }
+  }
+}
+
+// The document is read whole, so ingest caps its size
+export async function parseTransactionIso20022(
+  source: ReadableStream<Uint8Array>
+): Promise<Iso20022ParseResult> {
+  const bytes = new Uint8Array(await new Response(source).arrayBuffer());
+  const document = parseXml(new TextDecoder(detectXmlEncoding(bytes)).decode(bytes));
+  if (document.name !== "Document") {
+    throw new Error(`Expected an ISO 20022 <Document>, found <${document.name}>`);
+  }
+
+  const collector = createCollector();
+  let messageType: Iso20022MessageType;
+
+  const statement = childAt(document, "BkToCstmrStmt");
+  const initiation = childAt(document, "CstmrCdtTrfInitn");
+  if (statement) {
+    messageType = "camt.053";
+    mapStatement(statement, collector);
+  } else if (initiation) {
+    messageType = "pain.001";
+    mapCreditTransfers(initiation, collector);
+  } else {
+    const found = document.children[0]?.name ?? "nothing";
+    throw new Error(`Unsupported ISO 20022 message <${found}>, expected camt.053 or pain.001`);
+  }
+
+  return {
+    transactions: collector.transactions,
+    rejections: collector.rejections,
+    rejectedCount: collector.count(),
+    messageType,
+  };
+}
@@ -0,0 +1,289 @@
+// =====================================================
+// Analysis Jobs
+// In-process queue behind the /api/jobs endpoints. An upload is spooled
+// to a temporary directory when the job is created, so the request can
+// return at once; queued jobs then run in order, at most
+// ANALYSIS_CONCURRENCY at a time. Finished jobs are kept for an hour.
+// Status changes and analysis stage events can be subscribed to (the
+// SSE endpoint does). Jobs live in this server process only and are
+// lost on restart.
+// =====================================================
+import { randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable, Writable } from "node:stream";
+import { runAnalysis, type AnalyzeErrorOutcome, type AnalyzeInput, type AnalyzeOutcome } from "@/lib/analysis-runner";
+import { createUploadMeter, maxUploadBytes, type AnalyzeStreamEvent } from "@/lib/ingest";
+import type { AnalysisResult, AnalysisStageEvent } from "@/lib/graph-engine";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type JobProgress = Extract<AnalyzeStreamEvent, { type: "progress" }>;
+
+// What GET /api/jobs/:id returns
+export interface JobView {
+  job_id: string;
+  status: JobStatus;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  queue_position: number | null; // 1-based, while queued
+  progress: JobProgress | null; // latest progress event, while running
+  stages: AnalysisStageEvent[]; // latest event of each stage so far, in stage order
+  error?: AnalyzeErrorOutcome; // when failed
+}
+
+export type JobEvent =
+  | { type: "status"; job: JobView }
+  | { type: "stage"; stage: AnalysisStageEvent }
+  | { type: "progress"; progress: JobProgress };
+
+export type JobListener = (event: JobEvent) => void;
+
+const FINAL_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isFinalJobStatus = (status: JobStatus) => FINAL_STATUSES.includes(status);
+
+interface SpooledFile {
+  name?: string;
+  contentType?: string;
+  path: string;
+}
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  progress: JobProgress | null;
+  stages: Map<string, AnalysisStageEvent>;
+  listeners: Set<JobListener>;
+  input: Omit<AnalyzeInput, "files"> & { files: SpooledFile[] };
+  directory: string;
+  controller: AbortController;
+  outcome: AnalyzeOutcome | null;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const RETENTION_MS = 60 * 60 * 1000;
+
+interface JobQueueState {
+  jobs: Map<string, Job>;
+  queue: string[]; // IDs of queued jobs, oldest first
+  running: number;
+}
+
+// Kept on globalThis so that module reloads in development share one queue
+const state: JobQueueState = ((globalThis as { __analysisJobs?: JobQueueState }).__analysisJobs ??= {
+  jobs: new Map(),
+  queue: [],
+  running: 0,
+});
+
+function concurrency(): number {
+  const configured = Number(process.env.ANALYSIS_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+const isoOrNull = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+function viewOf(job: Job): JobView {
+  const position = state.queue.indexOf(job.id);
+  return {
+    job_id: job.id,
+    status: job.status,
+    created_at: new Date(job.createdAt).toISOString(),
+    started_at: isoOrNull(job.startedAt),
+    finished_at: isoOrNull(job.finishedAt),
+    queue_position: position === -1 ? null : position + 1,
+    progress: job.status === "running" ? job.progress : null,
+    stages: Array.from(job.stages.values()),
+    ...(job.status === "failed" && job.outcome && job.outcome.status !== 200 && { error: job.outcome }),
+  };
+}
+
+// Finished jobs past the retention period are dropped on the next access
+function purgeExpired() {
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const [id, job] of state.jobs) {
+    if (job.finishedAt !== null && job.finishedAt < cutoff) state.jobs.delete(id);
+  }
+}
+
+const removeDirectory = (directory: string) => rm(directory, { recursive: true, force: true }).catch(() => {});
+
+// Writes every uploaded file to the job directory, enforcing the upload
+// size limit across all of them
+async function spool(input: AnalyzeInput, directory: string): Promise<{ files: SpooledFile[]; bytes: number }> {
+  const meter = createUploadMeter(maxUploadBytes());
+  const files: SpooledFile[] = [];
+  let bytes = 0;
+  for (const [i, file] of input.files.entries()) {
+    const path = join(directory, `upload-${i}`);
+    await meter(file.stream).pipeTo(Writable.toWeb(createWriteStream(path)) as WritableStream<Uint8Array>);
+    bytes += (await stat(path)).size;
+    files.push({ name: file.name, contentType: file.contentType, path });
+  }
+  return { files, bytes };
+}
+
+function notify(job: Job, event: JobEvent) {
+  for (const listener of job.listeners) listener(event);
+}
+
+function setStatus(job: Job, status: JobStatus) {
+  job.status = status;
+  if (isFinalJobStatus(status)) job.finishedAt ??= Date.now();
+  notify(job, { type: "status", job: viewOf(job) });
+  if (isFinalJobStatus(status)) job.listeners.clear();
+}
+
+async function run(job: Job) {
+  job.startedAt = Date.now();
+  setStatus(job, "running");
+  const input: AnalyzeInput = {
+    ...job.input,
+    files: job.input.files.map(file => ({
+      name: file.name,
+      contentType: file.contentType,
+      stream: Readable.toWeb(createReadStream(file.path)) as ReadableStream<Uint8Array>,
+    })),
+  };
+
+  const outcome = await runAnalysis(
+    input,
+    event => {
+      if (event.type === "progress") {
+        job.progress = event;
+        notify(job, { type: "progress", progress: event });
+      } else if (event.type === "stage") {
+        const stage = { stage: event.stage, status: event.status, count: event.count, elapsed_ms: event.elapsed_ms };
+        job.stages.set(stage.stage, stage);
+        notify(job, { type: "stage", stage });
+      }
+    },
+    job.controller.signal
+  );
+
+  await removeDirectory(job.directory);
+  job.finishedAt = Date.now();
+  if (job.controller.signal.aborted) return;
+  job.outcome = outcome;
+  setStatus(job, outcome.status === 200 ? "succeeded" : "failed");
+}
+
+function startQueued() {
+  while (state.running < concurrency() && state.queue.length > 0) {
+    const job = state.jobs.get(state.queue.shift()!);
+    if (!job) continue;
+    state.running++;
+    run(job)
+      .catch(error => {
+        job.finishedAt = Date.now();
+        if (job.controller.signal.aborted) return;
+        job.outcome = {
+          status: 500,
+          code: "internal_error",
+          body: { error: error instanceof Error ? error.message : "Unknown error" },
+        };
+        setStatus(job, "failed");
+      })
+      .finally(() => {
+        state.running--;
+        startQueued();
+      });
+  }
+}
+
+// Spools the upload and queues its analysis. Throws UploadTooLargeError
+// when the upload exceeds the size limit.
+export async function createJob(input: AnalyzeInput): Promise<JobView> {
+  purgeExpired();
+  const directory = await mkdtemp(join(tmpdir(), "forensicgraph-job-"));
+  const { cleanup, ...jobInput } = input;
+  let spooled: { files: SpooledFile[]; bytes: number };
+  try {
+    spooled = await spool(input, directory);
+  } catch (error) {
+    await removeDirectory(directory);
+    throw error;
+  } finally {
+    await cleanup?.();
+  }
+
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    progress: null,
+    stages: new Map(),
+    listeners: new Set(),
+    input: { ...jobInput, files: spooled.files, totalBytes: spooled.bytes },
+    directory,
+    controller: new AbortController(),
+    outcome: null,
+  };
+  state.jobs.set(job.id, job);
+  state.queue.push(job.id);
+  startQueued();
+  return viewOf(job);
+}
+
+export function getJob(id: string): JobView | undefined {
+  purgeExpired();
+  const job = state.jobs.get(id);
+  return job && viewOf(job);
+}
+
+// Outcome of a finished job: the result, or the error it failed with
+export function getJobOutcome(id: string): { job: JobView; outcome: AnalyzeOutcome | null } | undefined {
+  purgeExpired();
+  const job = state.jobs.get(id);
+  return job && { job: viewOf(job), outcome: job.outcome };
+}
+
+// The analysis result of a job, once it has succeeded
+export function getJobResult(id: string): { job: JobView; result: AnalysisResult | null } | undefined {
+  purgeExpired();
+  const job = state.jobs.get(id);
+  if (!job) return undefined;
+  const { outcome } = job;
+  const result = job.status === "succeeded" && outcome?.status === 200 ? outcome.body : null;
+  return { job: viewOf(job), result };
+}
+
+// Queued jobs are dropped; running ones stop at the next parse chunk or
+// before analysis starts. Finished jobs are discarded with their results.
+export function cancelJob(id: string): JobView | undefined {
+  const job = state.jobs.get(id);
+  if (!job) return undefined;
+
+  if (job.status === "queued") {
+    state.queue.splice(state.queue.indexOf(id), 1);
+    setStatus(job, "cancelled");
+    void removeDirectory(job.directory);
+  } else if (job.status === "running") {
+    job.controller.abort();
+    setStatus(job, "cancelled");
+  } else {
+    state.jobs.delete(id);
+  }
+  return viewOf(job);
+}
+
+// Calls the listener with the job's current status, then with every
+// status change, stage and progress event until the job finishes.
+// Returns the unsubscribe function, or undefined for an unknown job.
+export function subscribeToJob(id: string, listener: JobListener): (() => void) | undefined {
+  const job = state.jobs.get(id);
+  if (!job) return undefined;
+  listener({ type: "status", job: viewOf(job) });
+  if (isFinalJobStatus(job.status)) return () => {};
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
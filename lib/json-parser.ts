@@ -0,0 +1,138 @@
+// =====================================================
+// JSON / NDJSON Transaction Parser
+// Accepts a JSON array of transactions or newline-delimited JSON
+// (one transaction per line). Each record is validated on its own;
+// invalid records are reported with the fields at fault.
+// =====================================================
+import { z } from "zod";
+import type { RowRejection, TransactionInput } from "@/lib/graph-engine";
+import { MAX_REPORTED_REJECTIONS } from "@/lib/csv-parser";
+import { createTransactionStore } from "@/lib/transaction-store";
+
+export interface JsonParseResult {
+  transactions: TransactionInput[];
+  rejections: RowRejection[]; // capped at MAX_REPORTED_REJECTIONS
+  rejectedCount: number;
+}
+
+const NUMERIC_RE = /^-?\d+(?:\.\d+)?$/;
+
+const requiredString = (invalidType: string) =>
+  z.string({ required_error: "Required", invalid_type_error: invalidType }).trim().min(1, "Must not be empty");
+
+// Integer IDs are accepted and kept as strings
+const id = z.preprocess(
+  value => (typeof value === "number" && Number.isInteger(value) ? String(value) : value),
+  requiredString("Expected a string or integer")
+);
+
+const transactionRecordSchema = z.object({
+  transaction_id: id,
+  sender_id: id,
+  receiver_id: id,
+  // Decimal strings are common in exports that avoid float rounding
+  amount: z.preprocess(
+    value => (typeof value === "string" && NUMERIC_RE.test(value.trim()) ? Number(value) : value),
+    z.number({ required_error: "Required", invalid_type_error: "Expected a number or numeric string" }).finite()
+  ),
+  // Epoch numbers are left to the timestamp normalisation layer
+  timestamp: z.preprocess(
+    value => (typeof value === "number" ? String(value) : value),
+    requiredString("Expected a string or epoch number")
+  ),
+  currency: z
+    .string({ invalid_type_error: "Expected an ISO 4217 code" })
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Expected an ISO 4217 code")
+    .optional(),
+  metadata: z.record(z.string(), { invalid_type_error: "Expected an object of strings" }).optional(),
+});
+
+function createCollector() {
+  const store = createTransactionStore();
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  function reject(line: number, reason: string) {
+    rejectedCount++;
+    if (rejections.length < MAX_REPORTED_REJECTIONS) rejections.push({ line, reason });
+  }
+
+  function add(line: number, record: unknown) {
+    const parsed = transactionRecordSchema.safeParse(record);
+    if (parsed.success) {
+      store.add(parsed.data);
+      return;
+    }
+    reject(
+      line,
+      parsed.error.issues
+        .map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+        .join("; ")
+    );
+  }
+
+  return {
+    add,
+    reject,
+    result: (): JsonParseResult => ({ transactions: store.transactions, rejections, rejectedCount }),
+  };
+}
+
+// JSON array of transactions; rejections carry the record number
+// (1-based). The body is read whole, so ingest caps its size.
+export async function parseTransactionJson(source: ReadableStream<Uint8Array>): Promise<JsonParseResult> {
+  // Read errors (e.g. the upload limit) are passed on as they are
+  const text = await new Response(source).text();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error("Body is not valid JSON");
+  }
+  if (!Array.isArray(body)) throw new Error("JSON body must be an array of transactions");
+
+  const collector = createCollector();
+  body.forEach((record, index) => collector.add(index + 1, record));
+  return collector.result();
+}
+
+// One JSON transaction per line, parsed as the stream arrives;
+// rejections carry the line number (1-based)
+export async function parseTransactionNdjson(source: ReadableStream<Uint8Array>): Promise<JsonParseResult> {
+  const collector = createCollector();
+  const reader = source.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let line = 0;
+
+  function handleLine(text: string) {
+    line++;
+    if (text.trim() === "") return;
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      collector.reject(line, "Line is not valid JSON");
+      return;
+    }
+    collector.add(line, record);
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      for (const text of lines) handleLine(text);
+    }
+    buffer += decoder.decode();
+    if (buffer !== "") handleLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+
+  return collector.result();
+}
@@ -0,0 +1,150 @@
+// =====================================================
+// Streaming Multipart Reader
+// Splits a multipart/form-data body into its parts as it arrives, so
+// that file parts can be written out without the whole body being held
+// in memory, as Response.formData() would.
+// =====================================================
+
+export interface MultipartPart {
+  name: string;
+  filename?: string; // set on file parts
+  contentType?: string;
+  // Read it before asking for the next part; whatever is left unread
+  // is skipped then
+  body: AsyncIterable<Uint8Array>;
+}
+
+// Headers of one part; anything longer is not a form part
+const MAX_HEADER_BYTES = 16 * 1024;
+
+const encoder = new TextEncoder();
+const CRLF = encoder.encode("\r\n");
+const HEADER_END = encoder.encode("\r\n\r\n");
+const DASH = 0x2d;
+
+// Boundary parameter of a multipart Content-Type, if any
+export function multipartBoundary(contentType: string): string | null {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  for (let i = haystack.indexOf(needle[0], from); i !== -1; i = haystack.indexOf(needle[0], i + 1)) {
+    if (i + needle.length > haystack.length) return -1;
+    let j = 1;
+    while (j < needle.length && haystack[i + j] === needle[j]) j++;
+    if (j === needle.length) return i;
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.byteLength === 0) return b;
+  const joined = new Uint8Array(a.byteLength + b.byteLength);
+  joined.set(a);
+  joined.set(b, a.byteLength);
+  return joined;
+}
+
+// Content-Disposition and Content-Type of a part
+function parseHeaders(block: string): Omit<MultipartPart, "body"> {
+  let disposition = "";
+  let contentType: string | undefined;
+  for (const line of block.split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    if (name === "content-disposition") disposition = value;
+    else if (name === "content-type") contentType = value;
+  }
+
+  const params = new Map<string, string>();
+  for (const match of disposition.matchAll(/;\s*([\w*-]+)=(?:"((?:[^"\\]|\\.)*)"|([^;\s]*))/g)) {
+    params.set(match[1].toLowerCase(), match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3]);
+  }
+  const name = params.get("name");
+  if (!/^form-data\b/i.test(disposition) || name === undefined) {
+    throw new Error("Malformed multipart body: part without a form-data name");
+  }
+  return { name, filename: params.get("filename"), contentType };
+}
+
+// Yields the parts in order. Throws on a body that does not follow the
+// boundary structure; errors of the source stream are passed on.
+export async function* readMultipart(
+  source: ReadableStream<Uint8Array>,
+  boundary: string
+): AsyncGenerator<MultipartPart> {
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  const reader = source.getReader();
+  // A leading CRLF lets the first boundary match like the later ones
+  let buffer: Uint8Array = CRLF;
+  let ended = false;
+
+  const fill = async (): Promise<void> => {
+    const { value, done } = ended ? ({ done: true } as const) : await reader.read();
+    if (done) {
+      ended = true;
+      throw new Error("Malformed multipart body: unexpected end");
+    }
+    buffer = concat(buffer, value);
+  };
+
+  // Yields the body of the current part up to the next delimiter, keeping
+  // back a tail that could be the start of one. Calling it again carries
+  // on where an abandoned iteration stopped.
+  let partEnded = false;
+  async function* partBody(): AsyncGenerator<Uint8Array> {
+    while (!partEnded) {
+      const at = indexOf(buffer, delimiter);
+      if (at !== -1) {
+        const chunk = buffer.subarray(0, at);
+        buffer = buffer.subarray(at + delimiter.length);
+        partEnded = true;
+        if (chunk.byteLength > 0) yield chunk;
+        return;
+      }
+      const safe = buffer.byteLength - delimiter.length + 1;
+      if (safe > 0) {
+        const chunk = buffer.subarray(0, safe);
+        buffer = buffer.subarray(safe);
+        yield chunk;
+      }
+      await fill();
+    }
+  }
+
+  try {
+    // Preamble, up to the first boundary
+    for await (const _ of partBody()) {
+      // discarded
+    }
+
+    for (;;) {
+      while (buffer.byteLength < 2) await fill();
+      // "--" after the boundary closes the body; the epilogue is ignored
+      if (buffer[0] === DASH && buffer[1] === DASH) return;
+
+      // Transport padding, CRLF, then the headers up to a blank line
+      let lineEnd: number;
+      while ((lineEnd = indexOf(buffer, CRLF)) === -1) await fill();
+      let headerEnd: number;
+      while ((headerEnd = indexOf(buffer, HEADER_END, lineEnd)) === -1) {
+        if (buffer.byteLength > MAX_HEADER_BYTES) throw new Error("Malformed multipart body: part headers too long");
+        await fill();
+      }
+      const headers = parseHeaders(new TextDecoder().decode(buffer.subarray(lineEnd + 2, headerEnd)));
+      buffer = buffer.subarray(headerEnd + HEADER_END.length);
+
+      partEnded = false;
+      yield { ...headers, body: { [Symbol.asyncIterator]: partBody } };
+      for await (const _ of partBody()) {
+        // skipped
+      }
+    }
+  } finally {
+    if (!ended) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
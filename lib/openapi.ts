@@ -0,0 +1,559 @@
+// =====================================================
+// OpenAPI Specification
+// OpenAPI 3.0 document for /api/v1, served at /api/v1/openapi.json.
+// Component schemas are declared against the engine's interfaces: each
+// must list every property of its interface, with exactly the optional
+// ones wrapped in optional(), so an interface change fails the type
+// check until the spec follows it.
+// =====================================================
+import {
+  STRUCTURING_JURISDICTIONS,
+  type AmountRetentionProfile,
+  type AnalysisConfig,
+  type AnalysisResult,
+  type AnalysisStageEvent,
+  type AnalysisSummary,
+  type CycleDetectionOptions,
+  type FraudRing,
+  type GraphEdge,
+  type GraphNode,
+  type MemberRole,
+  type PassThroughOptions,
+  type RetentionHop,
+  type RowRejection,
+  type ScatterGatherOptions,
+  type ScoreContribution,
+  type ScoringWeights,
+  type ShellNetworkOptions,
+  type SmurfingOptions,
+  type SourceFile,
+  type StageTiming,
+  type StructuringOptions,
+  type SuspiciousAccount,
+  type TransactionInput,
+} from "@/lib/graph-engine";
+import type {
+  DataQualityExample,
+  DataQualityIssue,
+  DataQualityIssueType,
+  DataQualityOptions,
+  DataQualityPolicy,
+  DataQualityReport,
+  DataQualitySeverity,
+} from "@/lib/data-quality";
+import { TIMESTAMP_FORMATS, type TimestampOptions } from "@/lib/timestamps";
+import { COMPRESSED_CONTENT_TYPES, INPUT_CONTENT_TYPES, INPUT_FORMATS } from "@/lib/ingest";
+import { CSV_DELIMITERS } from "@/lib/csv-parser";
+import { TRANSACTION_FIELDS } from "@/lib/column-mapping";
+import type { AnalyzeErrorOutcome } from "@/lib/analysis-runner";
+import type { JobProgress, JobStatus, JobView } from "@/lib/jobs";
+import { API_V1_BASE, type ApiError, type ApiErrorCode } from "@/lib/api-v1";
+
+// The subset of the OpenAPI 3.0 schema object the document uses
+export interface SchemaObject {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  format?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly string[];
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: SchemaObject | boolean;
+  oneOf?: SchemaObject[];
+  $ref?: string;
+}
+
+interface OptionalProperty {
+  optional: SchemaObject;
+}
+
+const optional = (schema: SchemaObject): OptionalProperty => ({ optional: schema });
+
+type PropertySchemas<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? OptionalProperty : SchemaObject;
+};
+
+function objectSchema<T>(properties: PropertySchemas<T>, description?: string): SchemaObject {
+  const schemas: Record<string, SchemaObject> = {};
+  const required: string[] = [];
+  for (const [name, property] of Object.entries(properties) as [string, SchemaObject | OptionalProperty][]) {
+    if ("optional" in property) {
+      schemas[name] = property.optional;
+    } else {
+      schemas[name] = property;
+      required.push(name);
+    }
+  }
+  return {
+    type: "object",
+    ...(description && { description }),
+    properties: schemas,
+    required,
+    additionalProperties: false,
+  };
+}
+
+// Every member of a string union, listed as the keys of a record so that
+// a missing or stale member is a type error
+const enumOf = <T extends string>(members: Record<T, true>): T[] => Object.keys(members) as T[];
+
+const string: SchemaObject = { type: "string" };
+const number: SchemaObject = { type: "number" };
+const integer: SchemaObject = { type: "integer" };
+const boolean: SchemaObject = { type: "boolean" };
+const described = (schema: SchemaObject, description: string): SchemaObject => ({ ...schema, description });
+const nullable = (schema: SchemaObject): SchemaObject => ({ ...schema, nullable: true });
+const arrayOf = (items: SchemaObject): SchemaObject => ({ type: "array", items });
+const mapOf = (values: SchemaObject): SchemaObject => ({ type: "object", additionalProperties: values });
+const stringEnum = (values: readonly string[]): SchemaObject => ({ type: "string", enum: values });
+const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` });
+
+const MEMBER_ROLES = enumOf<MemberRole>({
+  hub: true,
+  sender: true,
+  intermediary: true,
+  terminal: true,
+  source: true,
+  collector: true,
+});
+const ISSUE_TYPES = enumOf<DataQualityIssueType>({
+  duplicate_transaction_id: true,
+  cross_file_duplicate: true,
+  self_transfer: true,
+  non_positive_amount: true,
+  invalid_timestamp: true,
+});
+const POLICIES = enumOf<DataQualityPolicy>({ reject: true, drop: true, flag: true });
+const SEVERITIES = enumOf<DataQualitySeverity>({ error: true, warning: true });
+const JOB_STATUSES = enumOf<JobStatus>({
+  queued: true,
+  running: true,
+  succeeded: true,
+  failed: true,
+  cancelled: true,
+});
+export const API_ERROR_CODES = enumOf<ApiErrorCode>({
+  missing_file: true,
+  invalid_format: true,
+  invalid_config: true,
+  invalid_csv_options: true,
+  unsupported_media_type: true,
+  upload_too_large: true,
+  invalid_input: true,
+  no_valid_transactions: true,
+  data_quality_rejected: true,
+  internal_error: true,
+  not_found: true,
+  job_not_finished: true,
+});
+
+const policy = stringEnum(POLICIES);
+
+// Inline where nullable: OpenAPI 3.0 ignores siblings of a $ref
+const jobProgress: SchemaObject = {
+  oneOf: [
+    objectSchema<Extract<JobProgress, { stage: "parse" }>>({
+      type: stringEnum(["progress"]),
+      stage: stringEnum(["parse"]),
+      bytes: integer,
+      total: nullable(integer),
+    }),
+    objectSchema<Extract<JobProgress, { stage: "analyze" }>>({
+      type: stringEnum(["progress"]),
+      stage: stringEnum(["analyze"]),
+      transactions: integer,
+    }),
+  ],
+};
+
+const schemas = {
+  TransactionInput: objectSchema<TransactionInput>({
+    transaction_id: string,
+    sender_id: string,
+    receiver_id: string,
+    amount: number,
+    timestamp: described(string, "Read per the timestamps config (ISO 8601 by default)"),
+    currency: optional(described(string, "ISO 4217 code")),
+    metadata: optional(mapOf(string)),
+    source_file: optional(string),
+  }),
+
+  AnalysisResult: objectSchema<AnalysisResult>({
+    suspicious_accounts: arrayOf(ref("SuspiciousAccount")),
+    fraud_rings: arrayOf(ref("FraudRing")),
+    summary: ref("AnalysisSummary"),
+    nodes: arrayOf(ref("GraphNode")),
+    edges: arrayOf(ref("GraphEdge")),
+    config: ref("AnalysisConfig"),
+    data_quality: ref("DataQualityReport"),
+    rejected_rows: optional(arrayOf(ref("RowRejection"))),
+    rejected_row_count: optional(integer),
+    source_files: optional(arrayOf(ref("SourceFile"))),
+  }),
+
+  SuspiciousAccount: objectSchema<SuspiciousAccount>({
+    account_id: string,
+    suspicion_score: number,
+    detected_patterns: arrayOf(string),
+    ring_id: described(string, "Primary ring: the highest-risk ring that flags the account"),
+    ring_ids: arrayOf(string),
+    ring_roles: mapOf(ref("MemberRole")),
+    score_breakdown: arrayOf(ref("ScoreContribution")),
+  }),
+
+  ScoreContribution: objectSchema<ScoreContribution>({
+    factor: string,
+    points: number,
+    description: string,
+    ring_ids: arrayOf(string),
+    count: optional(integer),
+    ratio: optional(number),
+  }),
+
+  FraudRing: objectSchema<FraudRing>({
+    ring_id: string,
+    member_accounts: arrayOf(string),
+    pattern_type: string,
+    risk_score: number,
+    transaction_ids: optional(arrayOf(string)),
+    amount_profile: optional(ref("AmountRetentionProfile")),
+    member_roles: mapOf(ref("MemberRole")),
+  }),
+
+  MemberRole: stringEnum(MEMBER_ROLES),
+
+  RetentionHop: objectSchema<RetentionHop>({
+    account_id: string,
+    amount_in: number,
+    amount_out: number,
+    retention_pct: number,
+    fee: number,
+  }),
+
+  AmountRetentionProfile: objectSchema<AmountRetentionProfile>({
+    hops: arrayOf(ref("RetentionHop")),
+    overall_retention_pct: number,
+    conservation: number,
+  }),
+
+  AnalysisSummary: objectSchema<AnalysisSummary>({
+    total_accounts_analyzed: integer,
+    suspicious_accounts_flagged: integer,
+    fraud_rings_detected: integer,
+    processing_time_seconds: number,
+    stages: arrayOf(ref("StageTiming")),
+  }),
+
+  StageTiming: objectSchema<StageTiming>({
+    stage: string,
+    elapsed_ms: number,
+    count: integer,
+    peak_heap_bytes: nullable(integer),
+  }),
+
+  GraphNode: objectSchema<GraphNode>({
+    id: string,
+    suspicious: boolean,
+    ring_ids: arrayOf(string),
+    patterns: arrayOf(string),
+    total_sent: number,
+    total_received: number,
+    transaction_count: integer,
+    suspicion_score: number,
+    median_dwell_hours: nullable(number),
+    p90_dwell_hours: nullable(number),
+    forwarded_within_24h_pct: number,
+  }),
+
+  GraphEdge: objectSchema<GraphEdge>({
+    source: string,
+    target: string,
+    amount: number,
+    timestamp: string,
+    transaction_id: string,
+    currency: optional(string),
+    metadata: optional(mapOf(string)),
+    source_file: optional(string),
+    quality_flags: optional(arrayOf(stringEnum(ISSUE_TYPES))),
+  }),
+
+  RowRejection: objectSchema<RowRejection>({
+    line: integer,
+    reason: string,
+    file: optional(string),
+  }),
+
+  SourceFile: objectSchema<SourceFile>({
+    name: string,
+    format: described(nullable(stringEnum(INPUT_FORMATS)), "Null when the file was skipped as unrecognised"),
+    transaction_count: integer,
+    rejected_row_count: integer,
+  }),
+
+  AnalysisConfig: objectSchema<AnalysisConfig>(
+    {
+      cycles: objectSchema<CycleDetectionOptions>({
+        minLength: integer,
+        maxLength: integer,
+        temporal: boolean,
+        temporalWindowMs: number,
+      }),
+      smurfing: objectSchema<SmurfingOptions>({ windowMs: number, minConnections: integer }),
+      shellNetworks: objectSchema<ShellNetworkOptions>({ minDegree: integer, maxDegree: integer }),
+      structuring: objectSchema<StructuringOptions>({
+        jurisdiction: described(
+          nullable(stringEnum(STRUCTURING_JURISDICTIONS)),
+          "Reporting regime: sets threshold and bandPct (unless given) and limits the check to its currency (us_ctr USD 10,000; eu_aml EUR 15,000; eu_cash EUR 10,000; uk_mlr EUR 10,000). Null checks every currency against threshold and bandPct."
+        ),
+        threshold: number,
+        bandPct: number,
+        minOccurrences: integer,
+        windowMs: number,
+      }),
+      passThrough: objectSchema<PassThroughOptions>({ minForwardedPct: number, minInflows: integer }),
+      scatterGather: objectSchema<ScatterGatherOptions>({ minIntermediaries: integer, maxGatherDelayMs: number }),
+      scoring: objectSchema<ScoringWeights>({
+        cycle: number,
+        multipleCycleBonus: number,
+        maxMultipleCycleBonuses: integer,
+        fanIn: number,
+        fanOut: number,
+        shellNetwork: number,
+        structuring: number,
+        rapidPassThrough: number,
+        scatterGather: number,
+        temporal: number,
+        flowRatio: number,
+        flowRatioThreshold: number,
+      }),
+      dataQuality: objectSchema<DataQualityOptions>({
+        duplicateTransactionId: policy,
+        crossFileDuplicate: policy,
+        selfTransfer: policy,
+        nonPositiveAmount: policy,
+        invalidTimestamp: policy,
+      }),
+      timestamps: objectSchema<TimestampOptions>({
+        format: stringEnum(TIMESTAMP_FORMATS),
+        timeZone: described(string, "IANA zone for timestamps without an offset"),
+      }),
+    },
+    "Effective config. Requests may send any subset; missing values take the defaults."
+  ),
+
+  DataQualityReport: objectSchema<DataQualityReport>({
+    total_transactions: integer,
+    accepted_transactions: integer,
+    dropped_transactions: integer,
+    flagged_transactions: integer,
+    rejected: boolean,
+    timestamp_format: stringEnum(TIMESTAMP_FORMATS.filter(format => format !== "auto")),
+    issues: arrayOf(ref("DataQualityIssue")),
+  }),
+
+  DataQualityIssue: objectSchema<DataQualityIssue>({
+    type: stringEnum(ISSUE_TYPES),
+    severity: stringEnum(SEVERITIES),
+    policy,
+    description: string,
+    count: integer,
+    examples: arrayOf(
+      objectSchema<DataQualityExample>({
+        transaction_id: string,
+        value: string,
+      })
+    ),
+  }),
+
+  JobView: objectSchema<JobView>({
+    job_id: string,
+    status: stringEnum(JOB_STATUSES),
+    created_at: { type: "string", format: "date-time" },
+    started_at: nullable({ type: "string", format: "date-time" }),
+    finished_at: nullable({ type: "string", format: "date-time" }),
+    queue_position: described(nullable(integer), "1-based, while queued"),
+    progress: described(nullable(jobProgress), "Latest progress, while running"),
+    stages: arrayOf(ref("AnalysisStageEvent")),
+    error: optional(
+      objectSchema<AnalyzeErrorOutcome>(
+        {
+          status: integer,
+          body: mapOf({}),
+          code: stringEnum(API_ERROR_CODES),
+        },
+        "What the job failed with; GET .../result returns it as an ApiError"
+      )
+    ),
+  }),
+
+  JobProgress: jobProgress,
+
+  AnalysisStageEvent: objectSchema<AnalysisStageEvent>({
+    stage: string,
+    status: stringEnum(enumOf<AnalysisStageEvent["status"]>({ started: true, progress: true, completed: true })),
+    count: integer,
+    elapsed_ms: number,
+  }),
+
+  ApiError: objectSchema<ApiError>({
+    error: objectSchema<ApiError["error"]>({
+      code: stringEnum(API_ERROR_CODES),
+      message: string,
+      details: optional(
+        described(
+          {},
+          "invalid_config: the validation errors; data_quality_rejected: { data_quality }; no_valid_transactions: { rejected_rows, rejected_row_count, source_files }"
+        )
+      ),
+    }),
+  }),
+} satisfies Record<string, SchemaObject>;
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Bad input: no file, unknown format, invalid config or CSV options, unreadable input, or no valid transactions",
+  404: "Job not found",
+  409: "Job has not succeeded",
+  413: "Upload exceeds the size limit (MAX_UPLOAD_BYTES, 2 GiB by default), a JSON array, ISO 20022 or SWIFT file exceeds the limit for formats parsed whole (MAX_DOCUMENT_BYTES, 256 MiB by default), or a ZIP archive exceeds the ZIP limit (MAX_ZIP_BYTES, 256 MiB by default)",
+  415: "Unsupported content type",
+  422: "Rejected by a data-quality policy",
+  500: "Internal error",
+};
+
+function jsonContent(schema: SchemaObject) {
+  return { "application/json": { schema } };
+}
+
+function errorResponses(...statuses: number[]) {
+  return Object.fromEntries(
+    statuses.map(status => [
+      String(status),
+      { description: ERROR_DESCRIPTIONS[status], content: jsonContent(ref("ApiError")) },
+    ])
+  );
+}
+
+// The upload every analysis takes: a multipart form, or one file as the
+// raw body with the options as query parameters
+const optionFields = {
+  format: described(stringEnum(INPUT_FORMATS), "Input format of every file; detected per file when omitted"),
+  config: described(string, "JSON object with any subset of AnalysisConfig"),
+  delimiter: described(stringEnum(CSV_DELIMITERS), "CSV delimiter; detected when omitted"),
+  encoding: described(string, "CSV text encoding; detected when omitted"),
+  mapping: described(string, `JSON object naming the CSV column for each of: ${TRANSACTION_FIELDS.join(", ")}`),
+};
+
+const uploadParameters = [
+  { name: "filename", in: "query", schema: described(string, "Name of the raw body file; its extension selects the format") },
+  ...Object.entries(optionFields).map(([name, schema]) => ({ name, in: "query", schema })),
+];
+
+const uploadBody = {
+  required: true,
+  content: {
+    "multipart/form-data": {
+      schema: {
+        type: "object",
+        properties: {
+          file: described(arrayOf({ type: "string", format: "binary" }), "One or more files, merged into one analysis"),
+          ...optionFields,
+        },
+        required: ["file"],
+      },
+    },
+    ...Object.fromEntries(
+      INPUT_FORMATS.flatMap(format =>
+        INPUT_CONTENT_TYPES[format].map(contentType => [
+          contentType,
+          { schema: format === "json" ? arrayOf(ref("TransactionInput")) : { type: "string", format: "binary" } },
+        ])
+      )
+    ),
+    ...Object.fromEntries(
+      Object.values(COMPRESSED_CONTENT_TYPES)
+        .flat()
+        .map(contentType => [contentType, { schema: { type: "string", format: "binary" } }])
+    ),
+  },
+};
+
+const jobIdParameter = { name: "id", in: "path", required: true, schema: string };
+
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "ForensicGraph API",
+    version: "1.0.0",
+    description:
+      "Detects money-muling patterns (cycles, smurfing, shell networks, structuring, pass-through, scatter-gather) in transaction data. Errors are ApiError envelopes with a machine-readable code.",
+  },
+  paths: {
+    [`${API_V1_BASE}/analyze`]: {
+      post: {
+        operationId: "analyze",
+        summary: "Analyze an upload and wait for the result",
+        parameters: uploadParameters,
+        requestBody: uploadBody,
+        responses: {
+          "200": { description: "Analysis result", content: jsonContent(ref("AnalysisResult")) },
+          ...errorResponses(400, 413, 415, 422, 500),
+        },
+      },
+    },
+    [`${API_V1_BASE}/jobs`]: {
+      post: {
+        operationId: "createJob",
+        summary: "Queue the analysis of an upload",
+        parameters: uploadParameters,
+        requestBody: uploadBody,
+        responses: {
+          "202": {
+            description: "Job queued",
+            headers: { Location: { description: "URL of the job", schema: string } },
+            content: jsonContent(ref("JobView")),
+          },
+          ...errorResponses(400, 413, 415, 500),
+        },
+      },
+    },
+    [`${API_V1_BASE}/jobs/{id}`]: {
+      get: {
+        operationId: "getJob",
+        summary: "Status, progress and stages of a job",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": { description: "The job", content: jsonContent(ref("JobView")) },
+          ...errorResponses(404),
+        },
+      },
+      delete: {
+        operationId: "cancelJob",
+        summary: "Cancel a queued or running job, or discard a finished one",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": { description: "The job as it was cancelled or discarded", content: jsonContent(ref("JobView")) },
+          ...errorResponses(404),
+        },
+      },
+    },
+    [`${API_V1_BASE}/jobs/{id}/result`]: {
+      get: {
+        operationId: "getJobResult",
+        summary: "Result of a succeeded job, or the error a failed job ended with",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": { description: "Analysis result", content: jsonContent(ref("AnalysisResult")) },
+          ...errorResponses(400, 404, 409, 413, 422, 500),
+        },
+      },
+    },
+    [`${API_V1_BASE}/openapi.json`]: {
+      get: {
+        operationId: "getOpenApiDocument",
+        summary: "This document",
+        responses: { "200": { description: "OpenAPI 3.0 document", content: jsonContent({ type: "object" }) } },
+      },
+    },
+  },
+  components: { schemas },
+};
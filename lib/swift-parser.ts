@@ -0,0 +1,278 @@
+// =====================================================
+// SWIFT FIN Parser (MT103, MT940)
+// Reads a text file of concatenated FIN messages. MT103 credit transfers
+// become one transaction each (20 reference, 32A value date/currency/
+// amount, 50a ordering customer, 59a beneficiary); MT940 statement lines
+// (61, with the counterparty account found in 86) become one transaction
+// per line. Intermediary (56a) and account-with (57a) institutions are
+// kept as metadata. Messages that cannot be mapped are reported.
+// =====================================================
+import type { RowRejection, TransactionInput } from "@/lib/graph-engine";
+import { MAX_REPORTED_REJECTIONS, detectEncoding } from "@/lib/csv-parser";
+import { createTransactionStore } from "@/lib/transaction-store";
+
+export interface SwiftParseResult {
+  transactions: TransactionInput[];
+  rejections: RowRejection[]; // capped at MAX_REPORTED_REJECTIONS; line of the message or field
+  rejectedCount: number;
+}
+
+interface FinField {
+  tag: string; // e.g. "32A", "50K"
+  value: string; // continuation lines joined with "\n"
+  line: number;
+}
+
+interface FinMessage {
+  type: string | null; // "103", "940", ... from block 2; null when headerless
+  fields: FinField[];
+  line: number;
+}
+
+const FIELD_START_RE = /^:(\d{2}[A-Z]?):(.*)$/;
+// Block 2: I (input) or O (output) followed by the three-digit message type
+const APPLICATION_HEADER_RE = /\{2:[IO](\d{3})/;
+const DATE_CURRENCY_AMOUNT_RE = /^(\d{6})([A-Z]{3})(\d+,\d*)$/;
+// 61: value date, optional entry date, debit/credit mark, optional funds
+// code, amount, transaction type, reference, optional //bank reference
+const STATEMENT_LINE_RE =
+  /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n/]*?)(?:\/\/([^\n]*))?(?:\n[\s\S]*)?$/;
+const IBAN_RE = /\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/g;
+// Statement lines without an account owner reference
+const NO_REFERENCE = "NONREF";
+
+// ---- Message splitting ----
+
+// Headered messages start at "{1:"; headerless text blocks are separated
+// by "$" lines, as in many MT940 exports
+function splitMessages(text: string): FinMessage[] {
+  const chunks: { start: number; end: number }[] = [];
+  const headerStarts = Array.from(text.matchAll(/\{1:/g), match => match.index!);
+  if (headerStarts.length > 0) {
+    headerStarts.forEach((start, i) => chunks.push({ start, end: headerStarts[i + 1] ?? text.length }));
+  } else {
+    let start = 0;
+    for (const separator of text.matchAll(/^\$[ \t]*\r?$/gm)) {
+      chunks.push({ start, end: separator.index! });
+      start = separator.index! + separator[0].length;
+    }
+    chunks.push({ start, end: text.length });
+  }
+
+  const lineOf = createLineCounter(text);
+  const messages: FinMessage[] = [];
+  for (const { start, end } of chunks) {
+    const body = text.slice(start, end);
+    const blockStart = body.indexOf("{4:");
+    const textStart = blockStart === -1 ? 0 : blockStart + 3;
+    const textBlock = body.slice(textStart);
+    // The text block ends at a line holding "-}" (or "-" when headerless)
+    const blockEnd = textBlock.search(/^-\}?\s*$/m);
+    const messageLine = lineOf(start);
+    const fields = parseFields(blockEnd === -1 ? textBlock : textBlock.slice(0, blockEnd), lineOf(start + textStart));
+    if (fields.length === 0) continue;
+    messages.push({ type: APPLICATION_HEADER_RE.exec(body)?.[1] ?? null, fields, line: messageLine });
+  }
+  return messages;
+}
+
+// Line number (1-based) of increasing offsets, counted incrementally
+function createLineCounter(text: string) {
+  let offset = 0;
+  let line = 1;
+  return (target: number) => {
+    for (; offset < target; offset++) if (text.charCodeAt(offset) === 10) line++;
+    return line;
+  };
+}
+
+function parseFields(textBlock: string, firstLine: number): FinField[] {
+  const fields: FinField[] = [];
+  textBlock.split(/\r?\n/).forEach((raw, i) => {
+    const match = FIELD_START_RE.exec(raw);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2], line: firstLine + i });
+    } else if (fields.length > 0 && raw.trim() !== "") {
+      fields[fields.length - 1].value += "\n" + raw;
+    }
+  });
+  for (const field of fields) field.value = field.value.trim();
+  return fields;
+}
+
+// ---- Field values ----
+
+function fieldValue(message: FinMessage, ...tags: string[]): FinField | undefined {
+  return message.fields.find(field => tags.includes(field.tag));
+}
+
+// Option a of a party field (50a, 59a, 56a, 57a): the tag with any letter
+function optionField(message: FinMessage, tag: string): FinField | undefined {
+  return message.fields.find(field => field.tag.startsWith(tag));
+}
+
+// YYMMDD -> YYYY-MM-DD, with the SWIFT century window (years 80-99 are 19xx)
+function finDate(yymmdd: string): string {
+  const yy = Number(yymmdd.slice(0, 2));
+  const century = yy >= 80 ? "19" : "20";
+  return `${century}${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+const finAmount = (value: string) => Number(value.replace(",", "."));
+
+// Account of a party field: its "/account" line, or for option A (and
+// when no account is given) the BIC
+function partyAccount(field: FinField | undefined): string | undefined {
+  if (!field) return undefined;
+  const lines = field.value.split("\n").map(l => l.trim());
+  if (lines[0].startsWith("/")) {
+    const account = lines[0].slice(1).replace(/\s+/g, "").toUpperCase();
+    if (account) return account;
+  }
+  // 50F party identifier, e.g. "IBAN/DE89..." or "CUST/DE/ABC/1234"
+  if (field.tag.endsWith("F") && /^[A-Z]{4}\//.test(lines[0])) return lines[0];
+  if (field.tag.endsWith("A")) return lines[lines.length - 1] || undefined;
+  return undefined;
+}
+
+// Institution field: BIC for option A, name and address otherwise
+function institution(field: FinField | undefined): string | undefined {
+  if (!field) return undefined;
+  const lines = field.value.split("\n").filter(l => !l.startsWith("/"));
+  return (field.tag.endsWith("A") ? lines[lines.length - 1] : lines.join(", ")) || undefined;
+}
+
+// ---- Mapping ----
+
+function createCollector() {
+  const store = createTransactionStore();
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  function reject(line: number, reason: string) {
+    rejectedCount++;
+    if (rejections.length < MAX_REPORTED_REJECTIONS) rejections.push({ line, reason });
+  }
+
+  return {
+    add: store.add,
+    reject,
+    result: (): SwiftParseResult => ({ transactions: store.transactions, rejections, rejectedCount }),
+  };
+}
+
+type Collector = ReturnType<typeof createCollector>;
+
+function mapCreditTransfer(message: FinMessage, collector: Collector) {
+  const reference = fieldValue(message, "20")?.value;
+  const valueDate = DATE_CURRENCY_AMOUNT_RE.exec(fieldValue(message, "32A")?.value ?? "");
+  const orderingCustomer = partyAccount(optionField(message, "50"));
+  const beneficiary = partyAccount(optionField(message, "59"));
+
+  const missing = [
+    !reference && "20 (reference)",
+    !valueDate && "32A (value date, currency, amount)",
+    !orderingCustomer && "50a (ordering customer account)",
+    !beneficiary && "59a (beneficiary account)",
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    collector.reject(message.line, `MT103 missing or invalid field ${missing.join(", ")}`);
+    return;
+  }
+
+  const metadata: Record<string, string> = {};
+  const intermediary = institution(optionField(message, "56"));
+  const accountWith = institution(optionField(message, "57"));
+  if (intermediary) metadata.intermediary_institution = intermediary;
+  if (accountWith) metadata.account_with_institution = accountWith;
+
+  collector.add({
+    transaction_id: reference!,
+    sender_id: orderingCustomer!,
+    receiver_id: beneficiary!,
+    amount: finAmount(valueDate![3]),
+    timestamp: finDate(valueDate![1]),
+    currency: valueDate![2],
+    ...(Object.keys(metadata).length > 0 && { metadata }),
+  });
+}
+
+// Counterparty account from the 86 information field: the first IBAN
+// that is not the statement account. "?nn" subfield codes are removed.
+function counterpartyAccount(info: string | undefined, statementAccount: string): string | undefined {
+  if (!info) return undefined;
+  const flat = info.replace(/\?\d{2}/g, " ").replace(/\n/g, "");
+  for (const [iban] of flat.matchAll(IBAN_RE)) {
+    if (iban !== statementAccount) return iban;
+  }
+  return undefined;
+}
+
+function mapStatement(message: FinMessage, collector: Collector) {
+  const statementReference = fieldValue(message, "20")?.value ?? "MT940";
+  // 25 may be "BIC/account"; the account is what follows the last slash
+  const account = fieldValue(message, "25")?.value.split("/").pop()?.replace(/\s+/g, "").toUpperCase();
+  // Opening balance: D/C mark, date, currency, amount
+  const currency = /^[CD]\d{6}([A-Z]{3})/.exec(fieldValue(message, "60F", "60M")?.value ?? "")?.[1];
+  if (!account) {
+    collector.reject(message.line, "MT940 missing field 25 (account identification)");
+    return;
+  }
+
+  message.fields.forEach((field, i) => {
+    if (field.tag !== "61") return;
+    const line = STATEMENT_LINE_RE.exec(field.value);
+    if (!line) {
+      collector.reject(field.line, "Invalid statement line (61)");
+      return;
+    }
+    const [, valueDate, , mark, , amount, , ownerReference, bankReference] = line;
+    if (mark === "RC" || mark === "RD") {
+      collector.reject(field.line, "Reversal statement lines are not mapped");
+      return;
+    }
+
+    // The 86 field belonging to a statement line directly follows it
+    const next = message.fields[i + 1];
+    const counterparty = counterpartyAccount(next?.tag === "86" ? next.value : undefined, account);
+    if (!counterparty) {
+      collector.reject(field.line, "No counterparty account found in field 86");
+      return;
+    }
+
+    const reference = ownerReference.trim();
+    collector.add({
+      transaction_id:
+        reference && reference !== NO_REFERENCE
+          ? reference
+          : bankReference?.trim() || `${statementReference}/${field.line}`,
+      sender_id: mark === "D" ? account : counterparty,
+      receiver_id: mark === "D" ? counterparty : account,
+      amount: finAmount(amount),
+      timestamp: finDate(valueDate),
+      ...(currency && { currency }),
+    });
+  });
+}
+
+// The file is read whole, so ingest caps its size
+export async function parseTransactionSwift(source: ReadableStream<Uint8Array>): Promise<SwiftParseResult> {
+  const bytes = new Uint8Array(await new Response(source).arrayBuffer());
+  const text = new TextDecoder(detectEncoding(bytes, "utf-8")).decode(bytes);
+  const messages = splitMessages(text);
+  if (messages.length === 0) throw new Error("No SWIFT FIN messages found");
+
+  const collector = createCollector();
+  for (const message of messages) {
+    // Headerless messages are told apart by their fields
+    const type = message.type ?? (fieldValue(message, "61", "60F", "60M") ? "940" : "103");
+    if (type === "103") {
+      mapCreditTransfer(message, collector);
+    } else if (type === "940") {
+      mapStatement(message, collector);
+    } else {
+      collector.reject(message.line, `Unsupported message type MT${type}`);
+    }
+  }
+  return collector.result();
+}
@@ -0,0 +1,364 @@
+// =====================================================
+// Synthetic Transaction Generator
+// Builds a seeded, reproducible dataset for demos and regression runs:
+// a background population of accounts paying each other on recurring
+// schedules, with money-muling typologies injected on top (cycles,
+// fan-in and fan-out smurfing, shell chains, scatter-gather). Every
+// injected account and transaction is recorded in a ground-truth label
+// list. The same options and seed always give the same output.
+// =====================================================
+import {
+  DEFAULT_ANALYSIS_CONFIG,
+  computeDwellTimes,
+  type Transaction,
+  type TransactionInput,
+} from "@/lib/graph-engine";
+
+export const TYPOLOGIES = ["cycle", "fan_in", "fan_out", "shell_chain", "scatter_gather"] as const;
+export type Typology = (typeof TYPOLOGIES)[number];
+
+export interface SyntheticOptions {
+  seed: number;
+  accounts: number; // background population size
+  days: number; // length of the period covered
+  startDate: string; // first day of the period (YYYY-MM-DD, UTC)
+  // Injected instances per typology
+  cycles: number;
+  fanIn: number;
+  fanOut: number;
+  shellChains: number;
+  scatterGather: number;
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticOptions = {
+  seed: 42,
+  accounts: 500,
+  days: 30,
+  startDate: "2024-01-01",
+  cycles: 3,
+  fanIn: 2,
+  fanOut: 2,
+  shellChains: 2,
+  scatterGather: 1,
+};
+
+// One injected instance of a typology
+export interface GroundTruthLabel {
+  instance_id: string; // e.g. "cycle_2"
+  typology: Typology;
+  account_ids: string[];
+  transaction_ids: string[];
+}
+
+export interface SyntheticDataset {
+  transactions: TransactionInput[];
+  labels: GroundTruthLabel[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Background accounts keep fewer distinct counterparties than the
+// smurfing threshold and at least this many transactions, so that the
+// background alone does not look like smurfing or shell activity
+const MAX_BACKGROUND_PAYERS = DEFAULT_ANALYSIS_CONFIG.smurfing.minConnections - 2;
+const MIN_PAYMENTS_PER_RELATIONSHIP = 4;
+
+// Background accounts forward at most this share of what they receive
+// within 24h, well clear of the pass-through threshold
+const MAX_FORWARDED_PCT = DEFAULT_ANALYSIS_CONFIG.passThrough.minForwardedPct - 20;
+// Times an account's payments are cut by a fifth before it makes none
+const MAX_SPENDING_CUTS = 10;
+// Per-payment jitter around a relationship's fixed amount
+const AMOUNT_JITTER = 0.1;
+
+// mulberry32: small, fast and good enough for test data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    int,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    // Log-normal around a median, for payment sizes
+    logNormal: (median: number, sigma: number) => {
+      const u = 1 - next();
+      const v = next();
+      return median * Math.exp(sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v));
+    },
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Background amounts stay below the default structuring band, jitter
+// included, and so does any amount scaled down from them
+function backgroundAmount(random: Random): number {
+  const { threshold, bandPct } = DEFAULT_ANALYSIS_CONFIG.structuring;
+  const maxAmount = (threshold * (1 - bandPct / 100)) / (1 + AMOUNT_JITTER);
+  let amount = random.logNormal(250, 1.1);
+  while (amount >= maxAmount) amount = random.logNormal(250, 1.1);
+  return roundCents(Math.max(amount, 1));
+}
+
+interface DraftTransaction {
+  sender_id: string;
+  receiver_id: string;
+  amount: number;
+  epoch_ms: number;
+  label?: GroundTruthLabel;
+}
+
+function createAccountIds(random: Random) {
+  const used = new Set<string>();
+  return () => {
+    let id: string;
+    do {
+      id = `ACC${String(random.int(0, 9_999_999)).padStart(7, "0")}`;
+    } while (used.has(id));
+    used.add(id);
+    return id;
+  };
+}
+
+// Share of an account's receipts it pays on within 24h, as the
+// pass-through detector measures it
+function forwardedWithin24hPct(account: string, drafts: DraftTransaction[]): number {
+  const transactions = drafts.map(draft => ({ ...draft, transaction_id: "", timestamp: "" }) as Transaction);
+  return computeDwellTimes(transactions).get(account)?.forwardedWithin24hPct ?? 0;
+}
+
+// Recurring payments between background accounts. Payments only flow
+// from earlier to later accounts in a random ranking, so the background
+// has no cycles of its own, and an account's receipts are all known
+// when its own payments are drafted. Accounts that would pay on too
+// much of them too soon spend less.
+function generateBackground(
+  options: SyntheticOptions,
+  random: Random,
+  newAccount: () => string,
+  start: number
+): DraftTransaction[] {
+  const accounts = Array.from({ length: options.accounts }, newAccount);
+  const payerCount = new Map<string, number>();
+  const inflows = new Map<string, DraftTransaction[]>();
+  const drafts: DraftTransaction[] = [];
+  const periodMs = options.days * DAY_MS;
+
+  for (let i = 0; i < accounts.length - 1; i++) {
+    const payments: DraftTransaction[] = [];
+    const relationships = random.int(1, 3);
+    for (let r = 0; r < relationships; r++) {
+      const payee = accounts[random.int(i + 1, Math.min(accounts.length - 1, i + 50))];
+      if ((payerCount.get(payee) ?? 0) >= MAX_BACKGROUND_PAYERS) continue;
+      payerCount.set(payee, (payerCount.get(payee) ?? 0) + 1);
+
+      // Weekly or every few days, at a fixed amount with some jitter
+      const intervalMs = random.pick([7 * DAY_MS, 3.5 * DAY_MS, 2 * DAY_MS]);
+      const count = Math.max(MIN_PAYMENTS_PER_RELATIONSHIP, Math.floor(periodMs / intervalMs));
+      const base = backgroundAmount(random);
+      const offset = random.next() * intervalMs;
+      for (let k = 0; k < count; k++) {
+        payments.push({
+          sender_id: accounts[i],
+          receiver_id: payee,
+          amount: roundCents(base * (1 + AMOUNT_JITTER * (2 * random.next() - 1))),
+          epoch_ms: start + ((offset + k * intervalMs) % periodMs) + random.int(0, 6) * HOUR_MS,
+        });
+      }
+    }
+
+    const received = inflows.get(accounts[i]) ?? [];
+    let rounds = 0;
+    while (received.length > 0 && forwardedWithin24hPct(accounts[i], [...received, ...payments]) > MAX_FORWARDED_PCT) {
+      if (++rounds > MAX_SPENDING_CUTS) {
+        payments.length = 0;
+        break;
+      }
+      for (const payment of payments) payment.amount = roundCents(payment.amount * 0.8);
+    }
+
+    for (const payment of payments) {
+      if (!inflows.has(payment.receiver_id)) inflows.set(payment.receiver_id, []);
+      inflows.get(payment.receiver_id)!.push(payment);
+      drafts.push(payment);
+    }
+  }
+  return drafts;
+}
+
+// ---- Typologies ----
+// Each injector uses fresh accounts and returns the transactions it adds,
+// all labelled with the given instance
+
+type Injector = (
+  label: GroundTruthLabel,
+  random: Random,
+  newAccount: () => string,
+  start: number,
+  periodMs: number
+) => DraftTransaction[];
+
+// Funds go round 3-5 accounts, each hop a few hours after the last and
+// a few percent smaller
+const injectCycle: Injector = (label, random, newAccount, start, periodMs) => {
+  const members = Array.from({ length: random.int(3, 5) }, newAccount);
+  let amount = roundCents(random.logNormal(20_000, 0.5));
+  let time = start + random.next() * (periodMs - 10 * DAY_MS);
+  return members.map((member, i) => {
+    const hop = { sender_id: member, receiver_id: members[(i + 1) % members.length], amount, epoch_ms: time, label };
+    amount = roundCents(amount * (0.92 + random.next() * 0.06));
+    time += random.int(2, 36) * HOUR_MS;
+    return hop;
+  });
+};
+
+// 10-15 distinct parties within a day or two
+function smurfParties(random: Random, newAccount: () => string) {
+  const count = DEFAULT_ANALYSIS_CONFIG.smurfing.minConnections + random.int(0, 5);
+  return Array.from({ length: count }, newAccount);
+}
+
+const injectFanIn: Injector = (label, random, newAccount, start, periodMs) => {
+  const collector = newAccount();
+  const time = start + random.next() * (periodMs - 3 * DAY_MS);
+  return smurfParties(random, newAccount).map(sender => ({
+    sender_id: sender,
+    receiver_id: collector,
+    amount: roundCents(random.logNormal(1_500, 0.4)),
+    epoch_ms: time + random.next() * 2 * DAY_MS,
+    label,
+  }));
+};
+
+const injectFanOut: Injector = (label, random, newAccount, start, periodMs) => {
+  const source = newAccount();
+  const time = start + random.next() * (periodMs - 3 * DAY_MS);
+  return smurfParties(random, newAccount).map(receiver => ({
+    sender_id: source,
+    receiver_id: receiver,
+    amount: roundCents(random.logNormal(1_500, 0.4)),
+    epoch_ms: time + random.next() * 2 * DAY_MS,
+    label,
+  }));
+};
+
+// Origin -> 2-4 pass-through shells -> destination
+const injectShellChain: Injector = (label, random, newAccount, start, periodMs) => {
+  const chain = Array.from({ length: random.int(2, 4) + 2 }, newAccount);
+  let amount = roundCents(random.logNormal(50_000, 0.5));
+  let time = start + random.next() * (periodMs - 10 * DAY_MS);
+  const drafts: DraftTransaction[] = [];
+  for (let i = 0; i < chain.length - 1; i++) {
+    drafts.push({ sender_id: chain[i], receiver_id: chain[i + 1], amount, epoch_ms: time, label });
+    amount = roundCents(amount * (0.97 + random.next() * 0.02));
+    time += random.int(6, 48) * HOUR_MS;
+  }
+  return drafts;
+};
+
+// A source scatters to 10-15 intermediaries, which each forward most of
+// what they got to one collector within a few days
+const injectScatterGather: Injector = (label, random, newAccount, start, periodMs) => {
+  const source = newAccount();
+  const collector = newAccount();
+  const time = start + random.next() * (periodMs - 7 * DAY_MS);
+  return smurfParties(random, newAccount).flatMap(intermediary => {
+    const amount = roundCents(random.logNormal(4_000, 0.3));
+    const scatteredAt = time + random.next() * DAY_MS;
+    return [
+      { sender_id: source, receiver_id: intermediary, amount, epoch_ms: scatteredAt, label },
+      {
+        sender_id: intermediary,
+        receiver_id: collector,
+        amount: roundCents(amount * (0.9 + random.next() * 0.08)),
+        epoch_ms: scatteredAt + random.int(4, 96) * HOUR_MS,
+        label,
+      },
+    ];
+  });
+};
+
+const INJECTORS: { typology: Typology; option: keyof SyntheticOptions; inject: Injector }[] = [
+  { typology: "cycle", option: "cycles", inject: injectCycle },
+  { typology: "fan_in", option: "fanIn", inject: injectFanIn },
+  { typology: "fan_out", option: "fanOut", inject: injectFanOut },
+  { typology: "shell_chain", option: "shellChains", inject: injectShellChain },
+  { typology: "scatter_gather", option: "scatterGather", inject: injectScatterGather },
+];
+
+const formatTimestamp = (epochMs: number) => new Date(epochMs).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+export function generateSyntheticDataset(input: Partial<SyntheticOptions> = {}): SyntheticDataset {
+  const options = { ...DEFAULT_SYNTHETIC_OPTIONS, ...input };
+  const start = Date.parse(`${options.startDate}T00:00:00Z`);
+  if (Number.isNaN(start)) throw new Error(`Invalid start date: ${options.startDate}`);
+  if (options.days < 10) throw new Error("The period must be at least 10 days");
+
+  const random = createRandom(options.seed);
+  const newAccount = createAccountIds(random);
+  const periodMs = options.days * DAY_MS;
+
+  const drafts = generateBackground(options, random, newAccount, start);
+  const labels: GroundTruthLabel[] = [];
+  for (const { typology, option, inject } of INJECTORS) {
+    for (let n = 1; n <= (options[option] as number); n++) {
+      const label: GroundTruthLabel = {
+        instance_id: `${typology}_${n}`,
+        typology,
+        account_ids: [],
+        transaction_ids: [],
+      };
+      labels.push(label);
+      drafts.push(...inject(label, random, newAccount, start, periodMs));
+    }
+  }
+
+  // Transaction IDs follow time order, so they say nothing about labels
+  drafts.sort((a, b) => a.epoch_ms - b.epoch_ms);
+  const transactions = drafts.map((draft, i): TransactionInput => {
+    const transactionId = `TX${String(i + 1).padStart(7, "0")}`;
+    if (draft.label) {
+      draft.label.transaction_ids.push(transactionId);
+      for (const account of [draft.sender_id, draft.receiver_id]) {
+        if (!draft.label.account_ids.includes(account)) draft.label.account_ids.push(account);
+      }
+    }
+    return {
+      transaction_id: transactionId,
+      sender_id: draft.sender_id,
+      receiver_id: draft.receiver_id,
+      amount: draft.amount,
+      timestamp: formatTimestamp(draft.epoch_ms),
+    };
+  });
+
+  return { transactions, labels };
+}
+
+export function toTransactionCsv(transactions: TransactionInput[]): string {
+  const lines = ["transaction_id,sender_id,receiver_id,amount,timestamp"];
+  for (const tx of transactions) {
+    lines.push(`${tx.transaction_id},${tx.sender_id},${tx.receiver_id},${tx.amount.toFixed(2)},${tx.timestamp}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// One row per labelled account or transaction and the instance it belongs to
+export function toLabelCsv(labels: GroundTruthLabel[]): string {
+  const lines = ["entity_type,entity_id,typology,instance_id"];
+  for (const label of labels) {
+    for (const id of label.account_ids) lines.push(`account,${id},${label.typology},${label.instance_id}`);
+    for (const id of label.transaction_ids) lines.push(`transaction,${id},${label.typology},${label.instance_id}`);
+  }
+  return lines.join("\n") + "\n";
+}
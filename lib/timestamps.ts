@@ -0,0 +1,250 @@
+// =====================================================
+// Timestamp Normalisation
+// Turns timestamp strings into epoch milliseconds once, with an
+// explicit format and source time zone instead of runtime-dependent
+// `new Date(string)` parsing
+// =====================================================
+import type { OwnedTransactionInput, Transaction } from "@/lib/graph-engine";
+
+export const TIMESTAMP_FORMATS = [
+  "auto",
+  "iso8601", // 2024-03-04T14:00:00, optional offset or Z
+  "us", // 03/04/2024 14:00 is March 4
+  "eu", // 03/04/2024 14:00 is April 3
+  "epoch_seconds",
+  "epoch_millis",
+  "excel_serial", // days since 1899-12-30, fraction is time of day
+] as const;
+
+export type TimestampFormat = (typeof TIMESTAMP_FORMATS)[number];
+export type ResolvedTimestampFormat = Exclude<TimestampFormat, "auto">;
+
+export const TIMESTAMP_FORMAT_LABELS: Record<TimestampFormat, string> = {
+  auto: "Detect automatically",
+  iso8601: "ISO 8601",
+  us: "US (MM/DD/YYYY)",
+  eu: "EU (DD/MM/YYYY)",
+  epoch_seconds: "Epoch seconds",
+  epoch_millis: "Epoch milliseconds",
+  excel_serial: "Excel serial date",
+};
+
+export interface TimestampOptions {
+  format: TimestampFormat;
+  // IANA zone for timestamps without an explicit offset
+  timeZone: string;
+}
+
+export const DEFAULT_TIMESTAMP_OPTIONS: TimestampOptions = {
+  format: "auto",
+  timeZone: "UTC",
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+const ISO_RE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+const DAY_MONTH_RE =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?\s*(AM|PM)?)?$/i;
+const NUMERIC_RE = /^-?\d+(?:\.\d+)?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---- Time zone offsets ----
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+const zoneOffsetCache = new Map<string, Map<number, number>>();
+
+// Zone transitions fall on quarter hours, so one lookup per bucket suffices
+const OFFSET_BUCKET_MS = 15 * 60 * 1000;
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function zoneOffsetMs(epochMs: number, timeZone: string): number {
+  const bucket = Math.floor(epochMs / OFFSET_BUCKET_MS);
+  let offsets = zoneOffsetCache.get(timeZone);
+  if (!offsets) {
+    offsets = new Map();
+    zoneOffsetCache.set(timeZone, offsets);
+  }
+  const cached = offsets.get(bucket);
+  if (cached !== undefined) return cached;
+
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const instant = bucket * OFFSET_BUCKET_MS;
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = wallMs - instant;
+  offsets.set(bucket, offset);
+  return offset;
+}
+
+// Wall-clock time (as if it were UTC) in `timeZone` -> epoch ms.
+// Wall times skipped or repeated by a DST change take one of the two offsets.
+function wallTimeToEpoch(wallMs: number, timeZone: string): number {
+  if (timeZone === "UTC") return wallMs;
+  const firstGuess = wallMs - zoneOffsetMs(wallMs, timeZone);
+  return wallMs - zoneOffsetMs(firstGuess, timeZone);
+}
+
+// ---- Parsing ----
+
+// Date.UTC from calendar fields, or NaN when a field is out of range
+function wallTime(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  ms = 0
+): number {
+  if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) return NaN;
+  const wallMs = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  // Rejects days past the end of the month (Date.UTC would roll over)
+  return new Date(wallMs).getUTCDate() === day ? wallMs : NaN;
+}
+
+function fractionMs(digits: string | undefined): number {
+  return digits ? Math.round(Number(`0.${digits}`) * 1000) : 0;
+}
+
+function parseIso(value: string, timeZone: string): number {
+  const m = ISO_RE.exec(value);
+  if (!m) return NaN;
+  const wallMs = wallTime(+m[1], +m[2], +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0), fractionMs(m[7]));
+  if (Number.isNaN(wallMs)) return NaN;
+
+  const zone = m[8];
+  if (!zone) return wallTimeToEpoch(wallMs, timeZone);
+  if (zone.toUpperCase() === "Z") return wallMs;
+  const sign = zone[0] === "-" ? -1 : 1;
+  const digits = zone.slice(1).replace(":", "");
+  const offsetMinutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return wallMs - sign * offsetMinutes * 60 * 1000;
+}
+
+function parseDayMonth(value: string, monthFirst: boolean, timeZone: string): number {
+  const m = DAY_MONTH_RE.exec(value);
+  if (!m) return NaN;
+  const month = monthFirst ? +m[1] : +m[2];
+  const day = monthFirst ? +m[2] : +m[1];
+  let hour = +(m[4] ?? 0);
+  const meridiem = m[8]?.toUpperCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return NaN;
+    hour = (hour % 12) + (meridiem === "PM" ? 12 : 0);
+  }
+  const wallMs = wallTime(+m[3], month, day, hour, +(m[5] ?? 0), +(m[6] ?? 0), fractionMs(m[7]));
+  return Number.isNaN(wallMs) ? NaN : wallTimeToEpoch(wallMs, timeZone);
+}
+
+// Epoch ms for one timestamp, NaN when it does not match the format
+export function parseTimestamp(value: string, format: ResolvedTimestampFormat, timeZone: string): number {
+  const trimmed = value.trim();
+  switch (format) {
+    case "iso8601":
+      return parseIso(trimmed, timeZone);
+    case "us":
+      return parseDayMonth(trimmed, true, timeZone);
+    case "eu":
+      return parseDayMonth(trimmed, false, timeZone);
+    case "epoch_seconds":
+      return NUMERIC_RE.test(trimmed) ? Math.round(Number(trimmed) * 1000) : NaN;
+    case "epoch_millis":
+      return NUMERIC_RE.test(trimmed) ? Math.round(Number(trimmed)) : NaN;
+    case "excel_serial":
+      return NUMERIC_RE.test(trimmed)
+        ? wallTimeToEpoch(EXCEL_EPOCH_MS + Math.round(Number(trimmed) * DAY_SECONDS) * 1000, timeZone)
+        : NaN;
+  }
+}
+
+// ---- Format detection ----
+
+const DETECTION_SAMPLE_SIZE = 1000;
+
+// Picks the format most sampled values look like. Numbers are told apart
+// by magnitude; day/month order by any component above 12, and US order
+// when no value settles it.
+export function detectTimestampFormat(values: string[]): ResolvedTimestampFormat {
+  let iso = 0;
+  let dayMonth = 0;
+  let numeric = 0;
+  let maxNumeric = 0;
+  let dayFirst = false;
+  let monthFirst = false;
+
+  for (const raw of values.slice(0, DETECTION_SAMPLE_SIZE)) {
+    const value = raw.trim();
+    if (ISO_RE.test(value)) {
+      iso++;
+    } else if (NUMERIC_RE.test(value)) {
+      numeric++;
+      maxNumeric = Math.max(maxNumeric, Math.abs(Number(value)));
+    } else {
+      const m = DAY_MONTH_RE.exec(value);
+      if (!m) continue;
+      dayMonth++;
+      if (+m[1] > 12) dayFirst = true;
+      if (+m[2] > 12) monthFirst = true;
+    }
+  }
+
+  if (numeric > iso && numeric > dayMonth) {
+    if (maxNumeric >= 1e11) return "epoch_millis";
+    if (maxNumeric >= 1e7) return "epoch_seconds";
+    return "excel_serial";
+  }
+  if (dayMonth > iso) return dayFirst && !monthFirst ? "eu" : "us";
+  return "iso8601";
+}
+
+export interface NormalizedTimestamps {
+  transactions: Transaction[];
+  format: ResolvedTimestampFormat;
+}
+
+// Sets epoch_ms on every transaction object in place, so a large upload
+// is not held twice; unparseable timestamps get NaN and are left to the
+// data-quality stage
+export function normalizeTimestamps(
+  transactions: OwnedTransactionInput[],
+  options: TimestampOptions = DEFAULT_TIMESTAMP_OPTIONS
+): NormalizedTimestamps {
+  const format =
+    options.format === "auto"
+      ? detectTimestampFormat(transactions.slice(0, DETECTION_SAMPLE_SIZE).map(tx => tx.timestamp))
+      : options.format;
+
+  return {
+    format,
+    transactions: transactions.map(tx =>
+      Object.assign(tx, { epoch_ms: parseTimestamp(tx.timestamp, format, options.timeZone) })
+    ),
+  };
+}
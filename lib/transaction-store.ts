@@ -0,0 +1,45 @@
+// =====================================================
+// Transaction Store
+// Where parsers collect transactions. Account IDs and currency codes
+// repeat across millions of rows, so they are interned: every row
+// shares one string per distinct value instead of holding its own copy
+// of it (or of the decoded chunk it was sliced from).
+// =====================================================
+import type { TransactionInput } from "@/lib/graph-engine";
+
+export interface TransactionStore {
+  add(tx: TransactionInput): void;
+  readonly size: number;
+  readonly transactions: TransactionInput[];
+}
+
+export function createTransactionStore(): TransactionStore {
+  const transactions: TransactionInput[] = [];
+  const interned = new Map<string, string>();
+
+  function intern(value: string): string {
+    const existing = interned.get(value);
+    if (existing !== undefined) return existing;
+    interned.set(value, value);
+    return value;
+  }
+
+  return {
+    add(tx) {
+      const stored: TransactionInput = {
+        transaction_id: tx.transaction_id,
+        sender_id: intern(tx.sender_id),
+        receiver_id: intern(tx.receiver_id),
+        amount: tx.amount,
+        timestamp: tx.timestamp,
+      };
+      if (tx.currency) stored.currency = intern(tx.currency);
+      if (tx.metadata) stored.metadata = tx.metadata;
+      transactions.push(stored);
+    },
+    get size() {
+      return transactions.length;
+    },
+    transactions,
+  };
+}
@@ -0,0 +1,138 @@
+// =====================================================
+// Minimal XML Reader
+// Builds an element tree from well-formed XML: elements, attributes,
+// text, CDATA and character/entity references. Comments, processing
+// instructions and DOCTYPE declarations are skipped; DTDs are not read.
+// Namespace prefixes are dropped so lookups use local names.
+// =====================================================
+
+export interface XmlElement {
+  name: string; // local name, without namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated character data directly inside the element
+  line: number; // line the start tag is on (1-based)
+}
+
+const START_TAG_RE = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE_RE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(":") + 1);
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (ref, body: string) => {
+    if (body[0] === "#") {
+      const code = body[1] === "x" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[body] ?? ref;
+  });
+}
+
+export function parseXml(text: string): XmlElement {
+  const document: XmlElement = { name: "#document", attributes: {}, children: [], text: "", line: 1 };
+  const stack: XmlElement[] = [document];
+  let pos = 0;
+  let line = 1;
+
+  function advanceTo(next: number) {
+    for (let i = pos; i < next; i++) if (text.charCodeAt(i) === 10) line++;
+    pos = next;
+  }
+
+  function skipPast(terminator: string, what: string) {
+    const end = text.indexOf(terminator, pos);
+    if (end === -1) throw new Error(`Malformed XML at line ${line}: unterminated ${what}`);
+    advanceTo(end + terminator.length);
+    return end;
+  }
+
+  function appendText(raw: string) {
+    // Character data outside the root element is ignored
+    if (stack.length > 1) stack[stack.length - 1].text += raw;
+  }
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    if (lt === -1) {
+      appendText(decodeEntities(text.slice(pos)));
+      advanceTo(text.length);
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(text.slice(pos, lt)));
+      advanceTo(lt);
+    }
+
+    if (text.startsWith("<!--", pos)) {
+      skipPast("-->", "comment");
+    } else if (text.startsWith("<![CDATA[", pos)) {
+      const start = pos + "<![CDATA[".length;
+      const end = skipPast("]]>", "CDATA section");
+      appendText(text.slice(start, end));
+    } else if (text.startsWith("<?", pos)) {
+      skipPast("?>", "processing instruction");
+    } else if (text.startsWith("<!", pos)) {
+      skipPast(">", "declaration");
+    } else if (text.startsWith("</", pos)) {
+      const start = pos + 2;
+      const end = skipPast(">", "end tag");
+      const name = localName(text.slice(start, end).trim());
+      const open = stack.pop();
+      if (!open || stack.length === 0 || open.name !== name) {
+        throw new Error(`Malformed XML at line ${line}: unexpected </${name}>`);
+      }
+    } else {
+      START_TAG_RE.lastIndex = pos;
+      const match = START_TAG_RE.exec(text);
+      if (!match) throw new Error(`Malformed XML at line ${line}: invalid start tag`);
+
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of match[2].matchAll(ATTRIBUTE_RE)) {
+        attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      const element: XmlElement = { name: localName(match[1]), attributes, children: [], text: "", line };
+      if (stack.length === 1 && document.children.length > 0) {
+        throw new Error(`Malformed XML at line ${line}: more than one root element`);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!match[3]) stack.push(element);
+      advanceTo(START_TAG_RE.lastIndex);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+  if (document.children.length === 0) throw new Error("Malformed XML: no root element");
+  return document.children[0];
+}
+
+// ---- Lookups ----
+
+// First descendant along a path of child names
+export function childAt(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find(child => child.name === name);
+  }
+  return current;
+}
+
+export function childrenNamed(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(child => child.name === name) : [];
+}
+
+// Trimmed text at a path, or undefined when missing or empty
+export function textAt(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const text = childAt(element, ...path)?.text.trim();
+  return text ? text : undefined;
+}
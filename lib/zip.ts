@@ -0,0 +1,115 @@
+// =====================================================
+// Minimal ZIP Reader
+// Lists the files of a ZIP archive from its central directory and
+// streams each one out, inflating deflated entries. Stored and deflated
+// entries are supported; ZIP64, encrypted and multi-disk archives are not.
+// =====================================================
+
+export interface ZipEntry {
+  name: string; // path inside the archive
+  size: number; // uncompressed size in bytes
+  stream(): ReadableStream<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed part of the end record; the archive comment may follow it
+const END_RECORD_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+// Entries are streamed out of the archive in slices of this size
+const STREAM_CHUNK_BYTES = 64 * 1024;
+
+const STORED = 0;
+const DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8_NAME = 0x800;
+
+// The end record is the last one in the file; it is found by scanning
+// back over a possible archive comment
+function findEndRecord(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - END_RECORD_LENGTH - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - END_RECORD_LENGTH; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP archive: end of central directory not found");
+}
+
+function entryData(bytes: Uint8Array, view: DataView, localOffset: number, compressedSize: number): Uint8Array {
+  if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error("Corrupt ZIP archive: bad local file header");
+  }
+  const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+  if (start + compressedSize > bytes.byteLength) {
+    throw new Error("Corrupt ZIP archive: entry extends past the end of the file");
+  }
+  return bytes.subarray(start, start + compressedSize);
+}
+
+// Streams a view of the archive rather than a copy of it
+function streamOf(data: Uint8Array): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.subarray(offset, (offset += STREAM_CHUNK_BYTES)));
+    },
+  });
+}
+
+// Directories are left out
+export function readZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < END_RECORD_LENGTH) throw new Error("Not a ZIP archive: file too short");
+  const end = findEndRecord(view);
+
+  if (view.getUint16(end + 4, true) !== 0 || view.getUint16(end + 6, true) !== 0) {
+    throw new Error("Multi-disk ZIP archives are not supported");
+  }
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported; split the archive or use gzip");
+  }
+
+  const utf8 = new TextDecoder("utf-8");
+  const cp437 = new TextDecoder("latin1"); // close enough for file names
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) {
+      throw new Error("Corrupt ZIP archive: bad central directory entry");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const rawName = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = (flags & FLAG_UTF8_NAME ? utf8 : cp437).decode(rawName);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & FLAG_ENCRYPTED) throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+    if (method !== STORED && method !== DEFLATED) {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+
+    entries.push({
+      name,
+      size,
+      stream() {
+        const data = streamOf(entryData(bytes, view, localOffset, compressedSize));
+        return method === DEFLATED ? data.pipeThrough(new DecompressionStream("deflate-raw")) : data;
+      },
+    });
+  }
+  return entries;
+}
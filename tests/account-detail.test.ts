@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildAccountDetail } from "@/lib/account-detail";
+import { analyzeTransactions, type TransactionInput } from "@/lib/graph-engine";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+const tx = (id: string, sender: string, receiver: string, amount: number, hour: number): TransactionInput => ({
+  transaction_id: id,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount,
+  timestamp: new Date(START + hour * HOUR_MS).toISOString(),
+});
+
+// A -> B -> C -> A, then A pays D, E and F, itself, and B pays A again
+const transactions: TransactionInput[] = [
+  tx("T1", "A", "B", 1000, 0),
+  tx("T2", "B", "C", 980, 1),
+  tx("T3", "C", "A", 960, 2),
+  tx("T4", "A", "D", 300, 3),
+  tx("T5", "A", "E", 200, 4),
+  tx("T6", "A", "F", 100, 5),
+  tx("T7", "A", "A", 60, 6),
+  tx("T8", "B", "A", 40, 7),
+];
+
+const result = analyzeTransactions(transactions, {
+  smurfing: { minConnections: 3 },
+  dataQuality: { selfTransfer: "flag" },
+});
+
+describe("buildAccountDetail", () => {
+  it("ranks counterparties by volume and counts a self-transfer once", () => {
+    const detail = buildAccountDetail(result, "A")!;
+
+    assert.deepEqual(
+      detail.counterparties.map(c => [c.account_id, c.sent, c.received, c.volume, c.transaction_count]),
+      [
+        ["B", 1000, 40, 1040, 2],
+        ["C", 0, 960, 960, 1],
+        ["D", 300, 0, 300, 1],
+        ["E", 200, 0, 200, 1],
+        ["A", 60, 60, 120, 1],
+        ["F", 100, 0, 100, 1],
+      ]
+    );
+    assert.ok(detail.counterparties.every(c => c.suspicious));
+  });
+
+  it("lists a self-transfer as both incoming and outgoing, in input order", () => {
+    const detail = buildAccountDetail(result, "A")!;
+    assert.deepEqual(detail.incoming.map(edge => edge.transaction_id), ["T3", "T7", "T8"]);
+    assert.deepEqual(detail.outgoing.map(edge => edge.transaction_id), ["T1", "T4", "T5", "T6", "T7"]);
+  });
+
+  it("gives the account's role in each ring and marks the highest-risk one primary", () => {
+    const detail = buildAccountDetail(result, "A")!;
+
+    assert.deepEqual(
+      detail.rings.map(ring => [ring.pattern_type, ring.role, ring.member_count, ring.primary]),
+      [
+        ["cycle", "intermediary", 3, true],
+        ["fan_out", "hub", 6, false],
+        ["fan_in", "hub", 4, false],
+      ]
+    );
+    const scores = detail.rings.map(ring => ring.risk_score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+
+    const suspicious = result.suspicious_accounts.find(a => a.account_id === "A")!;
+    assert.equal(detail.rings[0].ring_id, suspicious.ring_id);
+    assert.deepEqual(detail.score_breakdown, suspicious.score_breakdown);
+
+    // A counterparty in one ring only, as a terminal
+    const d = buildAccountDetail(result, "D")!;
+    assert.deepEqual(
+      d.rings.map(ring => [ring.pattern_type, ring.role, ring.primary]),
+      [["fan_out", "terminal", true]]
+    );
+  });
+
+  it("is undefined for an account that is not in the result", () => {
+    assert.equal(buildAccountDetail(result, "Z"), undefined);
+  });
+});
@@ -0,0 +1,257 @@
+import assert from "node:assert/strict";
+import { readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { openApiDocument, type SchemaObject } from "@/lib/openapi";
+import { generateSyntheticDataset, toTransactionCsv } from "@/lib/synthetic";
+import * as analyzeRoute from "@/app/api/v1/analyze/route";
+import * as jobsRoute from "@/app/api/v1/jobs/route";
+import * as jobRoute from "@/app/api/v1/jobs/[id]/route";
+import * as jobResultRoute from "@/app/api/v1/jobs/[id]/result/route";
+import * as openApiRoute from "@/app/api/v1/openapi.json/route";
+
+type Method = "get" | "post" | "delete";
+
+const schemas: Record<string, SchemaObject> = openApiDocument.components.schemas;
+
+function resolve(schema: SchemaObject): SchemaObject {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace("#/components/schemas/", "");
+  assert.ok(schemas[name], `Unresolved $ref ${schema.$ref}`);
+  return schemas[name];
+}
+
+// Checks a value against the schema subset the document uses; returns
+// the mismatches as "path: problem"
+function validate(schemaOrRef: SchemaObject, value: unknown, path = "$"): string[] {
+  const schema = resolve(schemaOrRef);
+  if (value === null) return schema.nullable ? [] : [`${path}: null is not allowed`];
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validate(option, value, path).length === 0).length;
+    return matches === 1 ? [] : [`${path}: matches ${matches} of the oneOf schemas`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.join(", ")}`];
+  }
+
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" ? [] : [`${path}: expected a string`];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: expected a boolean`];
+    case "number":
+      return typeof value === "number" ? [] : [`${path}: expected a number`];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path}: expected an integer`];
+    case "array":
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      return value.flatMap((item, i) => validate(schema.items ?? {}, item, `${path}[${i}]`));
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) return [`${path}: expected an object`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter(name => !(name in record))
+        .map(name => `${path}: missing ${name}`);
+      for (const [name, property] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[name];
+        if (propertySchema) {
+          errors.push(...validate(propertySchema, property, `${path}.${name}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}: unexpected property ${name}`);
+        } else if (typeof schema.additionalProperties === "object") {
+          errors.push(...validate(schema.additionalProperties, property, `${path}.${name}`));
+        }
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+// Asserts the response is documented for the operation and returns its body
+async function expectContract(response: Response, method: Method, path: string): Promise<unknown> {
+  const operation = (openApiDocument.paths as Record<string, Record<string, unknown>>)[path]?.[method] as
+    | { responses: Record<string, { content?: Record<string, { schema: SchemaObject }> }> }
+    | undefined;
+  assert.ok(operation, `${method.toUpperCase()} ${path} is not in the document`);
+
+  const documented = operation.responses[String(response.status)];
+  assert.ok(documented, `${method.toUpperCase()} ${path} does not document status ${response.status}`);
+
+  const body = await response.json();
+  const schema = documented.content?.["application/json"]?.schema;
+  assert.ok(schema, `No JSON schema for ${response.status}`);
+  assert.deepEqual(validate(schema, body), []);
+  return body;
+}
+
+function request(path: string, init: { method: string; body?: BodyInit; contentType?: string } = { method: "GET" }) {
+  return new NextRequest(new URL(path, "http://localhost"), {
+    method: init.method,
+    body: init.body,
+    headers: init.contentType ? { "Content-Type": init.contentType } : undefined,
+  });
+}
+
+const jobContext = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const sampleCsv = toTransactionCsv(generateSyntheticDataset({ accounts: 60, days: 14 }).transactions);
+
+describe("OpenAPI document", () => {
+  it("is served and every $ref resolves", async () => {
+    const body = (await expectContract(openApiRoute.GET(), "get", "/api/v1/openapi.json")) as { openapi: string };
+    assert.equal(body.openapi, "3.0.3");
+
+    const refs = JSON.stringify(openApiDocument).match(/#\/components\/schemas\/\w+/g) ?? [];
+    for (const ref of new Set(refs)) resolve({ $ref: ref });
+  });
+});
+
+describe("POST /api/v1/analyze", () => {
+  const path = "/api/v1/analyze";
+
+  it("returns an AnalysisResult for a CSV body", async () => {
+    const response = await analyzeRoute.POST(
+      request(`${path}?filename=sample.csv`, { method: "POST", body: sampleCsv, contentType: "text/csv" })
+    );
+    assert.equal(response.status, 200);
+    const result = (await expectContract(response, "post", path)) as { fraud_rings: unknown[] };
+    assert.ok(result.fraud_rings.length > 0);
+  });
+
+  it("answers malformed JSON with 400 invalid_input", async () => {
+    const response = await analyzeRoute.POST(
+      request(path, { method: "POST", body: "[{not json", contentType: "application/json" })
+    );
+    assert.equal(response.status, 400);
+    const body = (await expectContract(response, "post", path)) as { error: { code: string } };
+    assert.equal(body.error.code, "invalid_input");
+  });
+
+  it("answers an invalid config with 400 invalid_config and its errors", async () => {
+    const config = encodeURIComponent(JSON.stringify({ cycles: { minLength: 1 } }));
+    const response = await analyzeRoute.POST(
+      request(`${path}?config=${config}`, { method: "POST", body: sampleCsv, contentType: "text/csv" })
+    );
+    assert.equal(response.status, 400);
+    const body = (await expectContract(response, "post", path)) as { error: { code: string; details: string[] } };
+    assert.equal(body.error.code, "invalid_config");
+    assert.ok(body.error.details.length > 0);
+  });
+
+  it("answers an unknown content type with 415", async () => {
+    const response = await analyzeRoute.POST(request(path, { method: "POST", body: "x", contentType: "image/png" }));
+    assert.equal(response.status, 415);
+    const body = (await expectContract(response, "post", path)) as { error: { code: string } };
+    assert.equal(body.error.code, "unsupported_media_type");
+  });
+
+  it("answers a data-quality rejection with 422 and the report", async () => {
+    const config = encodeURIComponent(JSON.stringify({ dataQuality: { selfTransfer: "reject" } }));
+    const csv = "transaction_id,sender_id,receiver_id,amount,timestamp\nT1,A,A,100,2024-01-01T00:00:00Z\n";
+    const response = await analyzeRoute.POST(
+      request(`${path}?config=${config}`, { method: "POST", body: csv, contentType: "text/csv" })
+    );
+    assert.equal(response.status, 422);
+    const body = (await expectContract(response, "post", path)) as {
+      error: { code: string; details: { data_quality: unknown } };
+    };
+    assert.equal(body.error.code, "data_quality_rejected");
+    assert.deepEqual(validate({ $ref: "#/components/schemas/DataQualityReport" }, body.error.details.data_quality), []);
+  });
+
+  // The file alone is under the limit; the body is refused while the
+  // form is read, before anything is buffered in full
+  it("answers a multipart body over the limit with 413 without a Content-Length", async () => {
+    const csv = "transaction_id,sender_id,receiver_id,amount,timestamp\nT1,A,B,100,2024-01-01T00:00:00Z\n";
+    const form = new FormData();
+    form.append("file", new File([csv], "small.csv", { type: "text/csv" }));
+    form.append("note", "x".repeat(4096));
+    const multipart = new Response(form);
+
+    const previousLimit = process.env.MAX_UPLOAD_BYTES;
+    process.env.MAX_UPLOAD_BYTES = "1024";
+    try {
+      const response = await analyzeRoute.POST(
+        new NextRequest(new URL(path, "http://localhost"), {
+          method: "POST",
+          body: multipart.body,
+          headers: { "Content-Type": multipart.headers.get("content-type")! },
+          duplex: "half",
+        })
+      );
+      assert.equal(response.status, 413);
+      const body = (await expectContract(response, "post", path)) as { error: { code: string } };
+      assert.equal(body.error.code, "upload_too_large");
+    } finally {
+      if (previousLimit === undefined) delete process.env.MAX_UPLOAD_BYTES;
+      else process.env.MAX_UPLOAD_BYTES = previousLimit;
+    }
+  });
+
+  it("analyses every file of a multipart upload and removes the files it spooled", async () => {
+    const [header, ...rows] = sampleCsv.trimEnd().split("\n");
+    const half = Math.floor(rows.length / 2);
+    const form = new FormData();
+    form.append("file", new File([[header, ...rows.slice(0, half)].join("\n")], "first.csv", { type: "text/csv" }));
+    form.append("file", new File([[header, ...rows.slice(half)].join("\n")], "second.csv", { type: "text/csv" }));
+    form.append("format", "csv");
+    form.append("config", new File([JSON.stringify({ smurfing: { minConnections: 3 } })], "config.json"));
+    const spooled = () => readdirSync(tmpdir()).filter(name => name.startsWith("forensicgraph-upload-"));
+    const before = spooled();
+
+    const response = await analyzeRoute.POST(request(path, { method: "POST", body: form }));
+    assert.equal(response.status, 200);
+    const result = (await expectContract(response, "post", path)) as {
+      source_files: { name: string; transaction_count: number }[];
+    };
+    assert.deepEqual(
+      result.source_files.map(file => [file.name, file.transaction_count]),
+      [
+        ["first.csv", half],
+        ["second.csv", rows.length - half],
+      ]
+    );
+    assert.deepEqual(spooled(), before);
+  });
+});
+
+describe("/api/v1/jobs", () => {
+  it("queues a job, reports it and returns its result", async () => {
+    const created = await jobsRoute.POST(
+      request("/api/v1/jobs?filename=sample.csv", { method: "POST", body: sampleCsv, contentType: "text/csv" })
+    );
+    assert.equal(created.status, 202);
+    const job = (await expectContract(created, "post", "/api/v1/jobs")) as { job_id: string };
+    assert.equal(created.headers.get("Location"), `/api/v1/jobs/${job.job_id}`);
+
+    let status = "queued";
+    for (let attempt = 0; attempt < 500 && (status === "queued" || status === "running"); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const response = await jobRoute.GET(request(`/api/v1/jobs/${job.job_id}`), jobContext(job.job_id));
+      ({ status } = (await expectContract(response, "get", "/api/v1/jobs/{id}")) as { status: string });
+    }
+    assert.equal(status, "succeeded");
+
+    const result = await jobResultRoute.GET(request(`/api/v1/jobs/${job.job_id}/result`), jobContext(job.job_id));
+    assert.equal(result.status, 200);
+    await expectContract(result, "get", "/api/v1/jobs/{id}/result");
+
+    const discarded = await jobRoute.DELETE(request(`/api/v1/jobs/${job.job_id}`), jobContext(job.job_id));
+    await expectContract(discarded, "delete", "/api/v1/jobs/{id}");
+  });
+
+  it("answers an unknown job with 404 not_found", async () => {
+    for (const [response, path] of [
+      [await jobRoute.GET(request("/api/v1/jobs/missing"), jobContext("missing")), "/api/v1/jobs/{id}"],
+      [await jobResultRoute.GET(request("/api/v1/jobs/missing/result"), jobContext("missing")), "/api/v1/jobs/{id}/result"],
+    ] as const) {
+      assert.equal(response.status, 404);
+      const body = (await expectContract(response, "get", path)) as { error: { code: string } };
+      assert.equal(body.error.code, "not_found");
+    }
+  });
+});
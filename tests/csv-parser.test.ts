@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { csvOptionsFromFields, parseTransactionCsv, previewCsv } from "@/lib/csv-parser";
+import { readFixture, streamOf } from "./fixtures";
+
+const HEADER = "transaction_id,sender_id,receiver_id,amount,timestamp";
+
+describe("parseTransactionCsv", () => {
+  // Semicolon-delimited, UTF-8 BOM, CRLF, aliased headers, quoted fields
+  // with delimiters, quotes and a line break, and one bad row per reason
+  const bankExport = readFixture("core-banking-export.csv");
+
+  for (const chunkSize of [Infinity, 7, 1]) {
+    it(`reads quoted fields and reports bad rows (chunks of ${chunkSize} bytes)`, async () => {
+      const result = await parseTransactionCsv(streamOf(bankExport, chunkSize));
+
+      assert.equal(result.delimiter, ";");
+      assert.equal(result.encoding, "utf-8");
+      assert.deepEqual(result.transactions, [
+        { transaction_id: "T1", sender_id: "ACC-A", receiver_id: "ACC-B", amount: 1500.5, timestamp: "2024-03-01T09:00:00Z" },
+        { transaction_id: "T2", sender_id: "ACC;B", receiver_id: "ACC-C", amount: 2000, timestamp: "2024-03-01T10:00:00Z" },
+        { transaction_id: "T3", sender_id: 'ACC "C"', receiver_id: "ACC-A", amount: 300, timestamp: "2024-03-02T11:00:00Z" },
+        { transaction_id: "T4", sender_id: "ACC-D", receiver_id: "ACC\r\nE", amount: 75, timestamp: "2024-03-02T12:00:00Z" },
+      ]);
+      assert.deepEqual(result.rejections, [
+        { line: 8, reason: "Invalid amount: abc" },
+        { line: 9, reason: "Missing value for receiver_id" },
+        { line: 10, reason: "Expected 5 fields, found 4" },
+        { line: 11, reason: "Unterminated quoted field" },
+      ]);
+      assert.equal(result.rejectedCount, 4);
+    });
+  }
+
+  it("decodes the requested encoding and detects tabs", async () => {
+    const result = await parseTransactionCsv(streamOf(readFixture("latin1.tsv"), 3), { encoding: "windows-1252" });
+    assert.equal(result.delimiter, "\t");
+    assert.equal(result.transactions[0].sender_id, "Müller");
+    assert.equal(result.transactions[0].receiver_id, "José");
+  });
+
+  it("prefers a byte-order mark over the requested encoding", async () => {
+    const utf16 = new Uint8Array([0xff, 0xfe, ...new Uint8Array(Buffer.from(`${HEADER}\nT1,Zoë,B,1,2024-01-01\n`, "utf16le"))]);
+    const result = await parseTransactionCsv(streamOf(utf16, 5), { encoding: "windows-1252" });
+    assert.equal(result.encoding, "utf-16le");
+    assert.equal(result.transactions[0].sender_id, "Zoë");
+  });
+
+  it("applies an explicit column mapping", async () => {
+    const csv = "ref,from,to,eur,when,note\nR1,A,B,10,2024-01-01,x\n";
+    const mapping = { transaction_id: "ref", sender_id: "to", receiver_id: "from", amount: "eur", timestamp: "when" };
+    const result = await parseTransactionCsv(streamOf(csv), { mapping });
+    assert.deepEqual(result.transactions[0], {
+      transaction_id: "R1",
+      sender_id: "B",
+      receiver_id: "A",
+      amount: 10,
+      timestamp: "2024-01-01",
+    });
+  });
+
+  it("rejects a header without the required columns", async () => {
+    await assert.rejects(
+      parseTransactionCsv(streamOf("id,payer,note\n1,A,x\n")),
+      /Missing required column: receiver_id, amount, timestamp/
+    );
+  });
+
+  it("rejects input without data rows", async () => {
+    await assert.rejects(parseTransactionCsv(streamOf(`${HEADER}\n\n`)), /at least one data row/);
+    await assert.rejects(parseTransactionCsv(streamOf("")), /at least one data row/);
+  });
+});
+
+describe("previewCsv", () => {
+  it("stops after the requested rows and suggests a mapping", async () => {
+    const rows = Array.from({ length: 50 }, (_, i) => `T${i},A,B,${i},2024-01-01`);
+    const preview = await previewCsv(streamOf([HEADER, ...rows].join("\n"), 16), {}, 3);
+    assert.deepEqual(preview.headers, HEADER.split(","));
+    assert.deepEqual(preview.rows, [rows[0], rows[1], rows[2]].map(row => row.split(",")));
+    assert.deepEqual(preview.suggestedMapping, Object.fromEntries(HEADER.split(",").map(h => [h, h])));
+  });
+});
+
+describe("csvOptionsFromFields", () => {
+  it("rejects unsupported delimiters, encodings and mappings", () => {
+    assert.match((csvOptionsFromFields(new URLSearchParams("delimiter=:")) as { error: string }).error, /delimiter/);
+    assert.match((csvOptionsFromFields(new URLSearchParams("encoding=klingon")) as { error: string }).error, /encoding/);
+    assert.match((csvOptionsFromFields(new URLSearchParams("mapping={")) as { error: string }).error, /not valid JSON/);
+    assert.match(
+      (csvOptionsFromFields(new URLSearchParams('mapping={"amount":"x"}')) as { error: string }).error,
+      /Mapping must name a column/
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectCycles, type AdjacencyList, type CycleBounds, type Transaction } from "@/lib/graph-engine";
+
+// The detectCycles this replaced: a DFS from every account, cut at
+// maxLength hops, with rotations deduplicated afterwards. The original
+// hard-coded the 3-5 hop bounds; they are parameters here.
+function referenceCycles(adj: AdjacencyList, allAccounts: Set<string>, bounds: CycleBounds): string[][] {
+  const cycles: string[][] = [];
+
+  for (const startNode of allAccounts) {
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    function dfs(current: string, depth: number) {
+      if (depth > bounds.maxLength) return;
+      path.push(current);
+      visited.add(current);
+
+      const neighbors = adj.get(current);
+      if (neighbors) {
+        for (const [neighbor] of neighbors) {
+          if (neighbor === startNode && depth >= bounds.minLength) {
+            cycles.push([...path]);
+          } else if (!visited.has(neighbor) && depth < bounds.maxLength) {
+            dfs(neighbor, depth + 1);
+          }
+        }
+      }
+
+      path.pop();
+      visited.delete(current);
+    }
+
+    dfs(startNode, 1);
+  }
+
+  const uniqueCycles: string[][] = [];
+  const seen = new Set<string>();
+  for (const cycle of cycles) {
+    const minIdx = cycle.indexOf(cycle.reduce((a, b) => (a < b ? a : b)));
+    const normalized = [...cycle.slice(minIdx), ...cycle.slice(0, minIdx)];
+    const key = normalized.join("|");
+    if (!seen.has(key)) {
+      seen.add(key);
+      uniqueCycles.push(normalized);
+    }
+  }
+  return uniqueCycles;
+}
+
+// mulberry32, so every run builds the same graphs
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function graphOf(edges: [string, string][]): { adj: AdjacencyList; accounts: Set<string> } {
+  const adj: AdjacencyList = new Map();
+  const accounts = new Set<string>();
+  edges.forEach(([from, to], i) => {
+    const tx: Transaction = {
+      transaction_id: `T${i}`,
+      sender_id: from,
+      receiver_id: to,
+      amount: 100,
+      timestamp: "2024-01-01T00:00:00Z",
+      epoch_ms: Date.parse("2024-01-01T00:00:00Z"),
+    };
+    accounts.add(from);
+    accounts.add(to);
+    if (!adj.has(from)) adj.set(from, new Map());
+    const targets = adj.get(from)!;
+    if (!targets.has(to)) targets.set(to, []);
+    targets.get(to)!.push(tx);
+  });
+  return { adj, accounts };
+}
+
+// `nodes` accounts with each possible directed edge present at `density`
+function randomGraph(seed: number, nodes: number, density: number) {
+  const random = createRandom(seed);
+  const ids = Array.from({ length: nodes }, (_, i) => `N${String(i).padStart(2, "0")}`);
+  // Shuffle so account order is not the sorted order
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  const edges: [string, string][] = [];
+  for (const from of ids) {
+    for (const to of ids) {
+      if (random() < density) edges.push([from, to]);
+    }
+  }
+  return graphOf(edges);
+}
+
+const DEFAULT_BOUNDS: CycleBounds = { minLength: 3, maxLength: 5 };
+
+describe("detectCycles", () => {
+  it("matches the brute-force search on small random graphs", () => {
+    for (let seed = 1; seed <= 60; seed++) {
+      const { adj, accounts } = randomGraph(seed, 4 + (seed % 9), 0.1 + (seed % 5) * 0.06);
+      assert.deepEqual(
+        Array.from(detectCycles(adj, accounts, DEFAULT_BOUNDS)),
+        referenceCycles(adj, accounts, DEFAULT_BOUNDS),
+        `seed ${seed}`
+      );
+    }
+  });
+
+  it("matches the brute-force search for other length bounds", () => {
+    const { adj, accounts } = randomGraph(7, 9, 0.3);
+    for (const bounds of [
+      { minLength: 2, maxLength: 2 },
+      { minLength: 2, maxLength: 4 },
+      { minLength: 4, maxLength: 6 },
+    ]) {
+      assert.deepEqual(
+        Array.from(detectCycles(adj, accounts, bounds)),
+        referenceCycles(adj, accounts, bounds),
+        JSON.stringify(bounds)
+      );
+    }
+  });
+
+  it("keeps every cycle within the length bounds", () => {
+    const { adj, accounts } = randomGraph(11, 10, 0.35);
+    for (const bounds of [DEFAULT_BOUNDS, { minLength: 2, maxLength: 3 }, { minLength: 4, maxLength: 4 }]) {
+      const cycles = Array.from(detectCycles(adj, accounts, bounds));
+      assert.ok(cycles.length > 0);
+      for (const cycle of cycles) {
+        assert.ok(cycle.length >= bounds.minLength && cycle.length <= bounds.maxLength, cycle.join(">"));
+      }
+    }
+  });
+
+  it("yields each cycle of a complete graph exactly once", () => {
+    // A complete digraph on n nodes has C(n, k) * (k - 1)! simple cycles of length k
+    const ids = ["A", "B", "C", "D", "E", "F"];
+    const { adj, accounts } = graphOf(ids.flatMap(from => ids.filter(to => to !== from).map(to => [from, to] as [string, string])));
+    const cycles = Array.from(detectCycles(adj, accounts, DEFAULT_BOUNDS));
+
+    const keys = cycles.map(cycle => cycle.join("|"));
+    assert.equal(new Set(keys).size, keys.length);
+    for (const cycle of cycles) assert.equal(cycle[0], [...cycle].sort()[0]);
+
+    const expected = { 3: 20 * 2, 4: 15 * 6, 5: 6 * 24 };
+    for (const [length, count] of Object.entries(expected)) {
+      assert.equal(cycles.filter(cycle => cycle.length === Number(length)).length, count, `length ${length}`);
+    }
+  });
+
+  it("ignores accounts outside any cycle and self-transfers", () => {
+    const { adj, accounts } = graphOf([
+      ["A", "B"],
+      ["B", "C"],
+      ["C", "A"],
+      ["C", "D"],
+      ["D", "D"],
+      ["E", "A"],
+    ]);
+    assert.deepEqual(Array.from(detectCycles(adj, accounts, DEFAULT_BOUNDS)), [["A", "B", "C"]]);
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  analyzeTransactions,
+  registerDetector,
+  unregisterDetector,
+  type Detector,
+  type TransactionInput,
+} from "@/lib/graph-engine";
+
+// Round amounts of 5,000 or more: unremarkable to the built-in detectors
+const transactions: TransactionInput[] = [
+  { transaction_id: "T1", sender_id: "A", receiver_id: "B", amount: 5000, timestamp: "2024-01-01T00:00:00Z" },
+  { transaction_id: "T2", sender_id: "C", receiver_id: "D", amount: 120.5, timestamp: "2024-01-02T00:00:00Z" },
+];
+
+function roundAmountDetector(score?: Detector["score"]): Detector {
+  return {
+    id: "round_amount",
+    ...(score && { score }),
+    detect: ({ transactions }) =>
+      transactions
+        .filter(tx => tx.amount >= 5000 && tx.amount % 1000 === 0)
+        .map(tx => ({
+          pattern_type: "round_amount",
+          members: [
+            { account_id: tx.sender_id, role: "sender" as const, patterns: ["round_amount"] },
+            { account_id: tx.receiver_id, role: "terminal" as const, patterns: [] },
+          ],
+          risk_score: 40,
+        })),
+  };
+}
+
+describe("registered detectors", () => {
+  afterEach(() => {
+    unregisterDetector("round_amount");
+  });
+
+  it("report their rings but add nothing to the score without a weight", () => {
+    registerDetector(roundAmountDetector());
+    const result = analyzeTransactions(transactions);
+
+    assert.deepEqual(result.fraud_rings.map(ring => ring.pattern_type), ["round_amount"]);
+    const sender = result.suspicious_accounts.find(a => a.account_id === "A")!;
+    assert.deepEqual(sender.detected_patterns, ["round_amount"]);
+    assert.equal(sender.suspicion_score, 0);
+  });
+
+  it("add their declared weight to the accounts they flag", () => {
+    registerDetector(roundAmountDetector({ weight: 30, description: "Sends large round amounts" }));
+    const result = analyzeTransactions(transactions);
+    const ringId = result.fraud_rings[0].ring_id;
+
+    const sender = result.suspicious_accounts.find(a => a.account_id === "A")!;
+    assert.equal(sender.suspicion_score, 30);
+    assert.deepEqual(sender.score_breakdown, [
+      { factor: "round_amount", points: 30, description: "Sends large round amounts", ring_ids: [ringId], count: 1 },
+    ]);
+
+    // Members the ring does not flag are not scored for it
+    assert.equal(result.nodes.find(node => node.id === "B")!.suspicion_score, 0);
+  });
+
+  it("cannot be registered twice", () => {
+    registerDetector(roundAmountDetector());
+    assert.throws(() => registerDetector(roundAmountDetector()), /already registered/);
+  });
+});
@@ -0,0 +1,32 @@
+// =====================================================
+// Test fixtures
+// Reads the files under tests/fixtures and turns text or bytes into the
+// byte streams the parsers take, optionally cut into small chunks so
+// that records and multi-byte characters straddle chunk boundaries.
+// =====================================================
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+export function readFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, "fixtures", name)));
+}
+
+export function readTextFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", name), "utf-8");
+}
+
+export function streamOf(data: string | Uint8Array, chunkSize = Infinity): ReadableStream<Uint8Array> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      const end = Math.min(offset + chunkSize, bytes.byteLength);
+      controller.enqueue(bytes.slice(offset, end));
+      offset = end;
+    },
+  });
+}
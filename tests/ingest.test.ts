@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { gzipSync } from "node:zlib";
+import { UploadTooLargeError, parseUploadedFiles } from "@/lib/ingest";
+import { readFixture, streamOf } from "./fixtures";
+
+async function withLimit<T>(name: string, bytes: number, run: () => Promise<T>): Promise<T> {
+  const previous = process.env[name];
+  process.env[name] = String(bytes);
+  try {
+    return await run();
+  } finally {
+    if (previous === undefined) delete process.env[name];
+    else process.env[name] = previous;
+  }
+}
+
+const withUploadLimit = <T>(bytes: number, run: () => Promise<T>) => withLimit("MAX_UPLOAD_BYTES", bytes, run);
+
+const upload = (name: string, data: Uint8Array) => ({ name, stream: streamOf(data, 64) });
+
+describe("parseUploadedFiles", () => {
+  it("reads every recognised file of a ZIP archive, tagged with its path", async () => {
+    const result = await parseUploadedFiles([upload("march.zip", readFixture("upload.zip"))], null);
+
+    assert.deepEqual(
+      result.transactions.map(tx => [tx.transaction_id, tx.source_file]),
+      [
+        ["Z1", "march.zip/stored.csv"],
+        ["Z2", "march.zip/stored.csv"],
+        ["Z3", "march.zip/exports/deflated.ndjson"],
+        ["Z4", "march.zip/exports/more.csv.gz"],
+      ]
+    );
+    // Hidden and resource fork entries are left out; unrecognised files are listed
+    assert.deepEqual(
+      result.files.map(file => [file.name, file.format, file.transaction_count]),
+      [
+        ["march.zip/stored.csv", "csv", 2],
+        ["march.zip/exports/deflated.ndjson", "ndjson", 1],
+        ["march.zip/exports/more.csv.gz", "csv", 1],
+        ["march.zip/README.md", null, 0],
+      ]
+    );
+  });
+
+  it("reads a gzip-compressed file in the format of its inner name", async () => {
+    const result = await parseUploadedFiles([upload("march.csv.gz", readFixture("transactions.csv.gz"))], null);
+    assert.deepEqual(result.transactions.map(tx => tx.transaction_id), ["Z1", "Z2"]);
+    assert.deepEqual(result.files, [
+      { name: "march.csv.gz", format: "csv", transaction_count: 2, rejected_row_count: 0 },
+    ]);
+  });
+
+  it("stops a gzip bomb at the upload limit", async () => {
+    const bomb = new Uint8Array(gzipSync(Buffer.alloc(1024 * 1024)));
+    assert.ok(bomb.byteLength < 16 * 1024);
+
+    for (const name of ["bomb.csv.gz", "bomb.json.gz"]) {
+      await withUploadLimit(64 * 1024, () =>
+        assert.rejects(parseUploadedFiles([upload(name, bomb)], null), UploadTooLargeError)
+      );
+    }
+  });
+
+  it("refuses a ZIP entry listed as larger than the limit before reading it", async () => {
+    await withUploadLimit(100, () =>
+      assert.rejects(parseUploadedFiles([upload("march.zip", readFixture("upload.zip"))], null), UploadTooLargeError)
+    );
+  });
+
+  it("refuses a ZIP archive over the ZIP limit", async () => {
+    await withLimit("MAX_ZIP_BYTES", 512, () =>
+      assert.rejects(
+        parseUploadedFiles([upload("march.zip", readFixture("upload.zip"))], null),
+        (error: Error) => error instanceof UploadTooLargeError && /^ZIP archive exceeds the limit of 512 bytes/.test(error.message)
+      )
+    );
+  });
+
+  it("stops a ZIP entry that holds more than its listed size", async () => {
+    const archive = readFixture("upload.zip");
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    // Central directory entry of stored.csv claims 10 bytes instead of 117
+    const central = view.getUint32(archive.byteLength - 22 + 16, true);
+    view.setUint32(central + 24, 10, true);
+
+    await withUploadLimit(100, () =>
+      assert.rejects(parseUploadedFiles([upload("march.zip", archive)], null), UploadTooLargeError)
+    );
+  });
+
+  it("holds JSON arrays, ISO 20022 and SWIFT files to the document limit", async () => {
+    await withLimit("MAX_DOCUMENT_BYTES", 600, async () => {
+      for (const name of ["transactions.json", "camt053.xml"]) {
+        await assert.rejects(
+          parseUploadedFiles([upload(name, readFixture(name))], null),
+          (error: Error) => error instanceof UploadTooLargeError && /file exceeds the limit of 600 bytes/.test(error.message)
+        );
+      }
+      // Formats parsed as they stream only have the upload limit
+      const result = await parseUploadedFiles(
+        [upload("transactions.ndjson", readFixture("transactions.ndjson")), upload("mt940.sta", readFixture("mt940.sta"))],
+        null
+      );
+      assert.ok(result.transactions.length > 0);
+    });
+  });
+
+  it("counts decompressed bytes across all files of an upload", async () => {
+    // Each archive alone expands to under the limit; together they do not
+    const zip = () => upload("march.zip", readFixture("upload.zip"));
+    await withUploadLimit(600, () => assert.rejects(parseUploadedFiles([zip(), zip()], null), UploadTooLargeError));
+    await withUploadLimit(600, async () => {
+      const result = await parseUploadedFiles([zip()], null);
+      assert.equal(result.transactions.length, 4);
+    });
+  });
+});
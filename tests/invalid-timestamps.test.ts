@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeTransactions, type TransactionInput } from "@/lib/graph-engine";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+// `valid` senders pay the collector an hour apart, then `invalid` more
+// with unparseable timestamps
+function fanIn(valid: number, invalid: number, amount = 500): TransactionInput[] {
+  return Array.from({ length: valid + invalid }, (_, i) => ({
+    transaction_id: `T${i}`,
+    sender_id: `SENDER_${i}`,
+    receiver_id: "COLLECTOR",
+    amount,
+    timestamp: i < valid ? new Date(START + i * HOUR_MS).toISOString() : "not a date",
+  }));
+}
+
+const flag = { dataQuality: { invalidTimestamp: "flag" as const } };
+
+describe("transactions with invalid timestamps", () => {
+  it("are kept and flagged under the flag policy", () => {
+    const result = analyzeTransactions(fanIn(10, 2), flag);
+    assert.equal(result.edges.length, 12);
+    assert.deepEqual(
+      result.edges.filter(edge => edge.quality_flags).map(edge => edge.transaction_id),
+      ["T10", "T11"]
+    );
+  });
+
+  it("count towards a fan-in but not towards its time window", () => {
+    const result = analyzeTransactions(fanIn(9, 3), flag);
+    const [ring] = result.fraud_rings.filter(r => r.pattern_type === "fan_in");
+    assert.equal(ring.member_accounts.length, 13);
+    assert.ok(ring.member_accounts.includes("SENDER_11"));
+
+    const collector = result.suspicious_accounts.find(a => a.account_id === "COLLECTOR")!;
+    assert.ok(!collector.score_breakdown.some(c => c.factor === "temporal"));
+  });
+
+  it("leave a window that is full without them temporal", () => {
+    const result = analyzeTransactions(fanIn(10, 2), flag);
+    const [ring] = result.fraud_rings.filter(r => r.pattern_type === "fan_in");
+    assert.equal(ring.member_accounts.length, 13);
+
+    const collector = result.suspicious_accounts.find(a => a.account_id === "COLLECTOR")!;
+    assert.ok(collector.score_breakdown.some(c => c.factor === "temporal"));
+  });
+
+  it("do not count towards structuring", () => {
+    const result = analyzeTransactions(fanIn(2, 3, 9500), flag);
+    assert.deepEqual(result.fraud_rings.filter(ring => ring.pattern_type === "structuring"), []);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseTransactionIso20022 } from "@/lib/iso20022-parser";
+import { readFixture, streamOf } from "./fixtures";
+
+const STATEMENT_IBAN = "DE89370400440532013000";
+
+describe("parseTransactionIso20022", () => {
+  it("maps camt.053 entry details from the statement account's side", async () => {
+    const result = await parseTransactionIso20022(streamOf(readFixture("camt053.xml"), 64));
+
+    assert.equal(result.messageType, "camt.053");
+    assert.deepEqual(result.transactions, [
+      // Credit: the statement account receives; entry amount for a single detail
+      {
+        transaction_id: "E2E-1",
+        sender_id: "GB29NWBK60161331926819",
+        receiver_id: STATEMENT_IBAN,
+        amount: 1500,
+        timestamp: "2024-03-01",
+        currency: "EUR",
+      },
+      // Debit batch: bank reference in place of NOTPROVIDED, proprietary account ID
+      {
+        transaction_id: "TX-2",
+        sender_id: STATEMENT_IBAN,
+        receiver_id: "ACC-77",
+        amount: 200,
+        timestamp: "2024-03-02T10:15:00+01:00",
+        currency: "EUR",
+      },
+      {
+        transaction_id: "E2E-3",
+        sender_id: STATEMENT_IBAN,
+        receiver_id: "FR1420041010050500013M02606",
+        amount: 300.5,
+        timestamp: "2024-03-02T10:15:00+01:00",
+        currency: "EUR",
+      },
+    ]);
+    assert.deepEqual(result.rejections, [
+      { line: 41, reason: "Missing or invalid CdtDbtInd" },
+      { line: 46, reason: "Entry has no transaction details to identify the counterparty" },
+      { line: 56, reason: "Missing debtor account, amount" },
+    ]);
+    assert.equal(result.rejectedCount, 3);
+  });
+
+  it("maps pain.001 credit transfers in a declared Latin-1 encoding", async () => {
+    const result = await parseTransactionIso20022(streamOf(readFixture("pain001.xml"), 64));
+
+    assert.equal(result.messageType, "pain.001");
+    assert.deepEqual(result.transactions, [
+      {
+        transaction_id: "INV-1001",
+        sender_id: STATEMENT_IBAN,
+        receiver_id: "ES9121000418450200051332",
+        amount: 9500,
+        timestamp: "2024-03-05",
+        currency: "EUR",
+      },
+      {
+        transaction_id: "INSTR-2",
+        sender_id: STATEMENT_IBAN,
+        receiver_id: "ACC-Ö1",
+        amount: 250,
+        timestamp: "2024-03-05",
+        currency: "EUR",
+      },
+      {
+        transaction_id: "INV-2001",
+        sender_id: STATEMENT_IBAN,
+        receiver_id: "ES9121000418450200051332",
+        amount: 120,
+        timestamp: "2024-03-06T08:00:00Z",
+        currency: "EUR",
+      },
+    ]);
+    assert.deepEqual(result.rejections, [{ line: 21, reason: "Missing creditor account, amount" }]);
+  });
+
+  it("rejects malformed XML with the line at fault", async () => {
+    const cases: [string, RegExp][] = [
+      ["<Document>\n<BkToCstmrStmt>\n</Stmt>\n</Document>", /line 3: unexpected <\/Stmt>/],
+      ["<Document>\n<BkToCstmrStmt>", /<BkToCstmrStmt> is never closed/],
+      ["<Document>\n<!-- open comment", /line 2: unterminated comment/],
+      ['<Document>\n<Amt Ccy=EUR>1</Amt>\n</Document>', /line 2: invalid start tag/],
+      ["<Document/>\n<Document/>", /line 2: more than one root element/],
+      ["", /no root element/],
+    ];
+    for (const [xml, message] of cases) {
+      await assert.rejects(parseTransactionIso20022(streamOf(xml)), message);
+    }
+  });
+
+  it("rejects documents that are not camt.053 or pain.001", async () => {
+    await assert.rejects(
+      parseTransactionIso20022(streamOf("<Envelope><Document/></Envelope>")),
+      /Expected an ISO 20022 <Document>, found <Envelope>/
+    );
+    await assert.rejects(
+      parseTransactionIso20022(streamOf("<Document><FIToFICstmrCdtTrf/></Document>")),
+      /Unsupported ISO 20022 message <FIToFICstmrCdtTrf>/
+    );
+    await assert.rejects(
+      parseTransactionIso20022(streamOf('<?xml version="1.0" encoding="EBCDIC-1047"?><Document/>')),
+      /Unsupported XML encoding: EBCDIC-1047/
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MAX_REPORTED_REJECTIONS } from "@/lib/csv-parser";
+import { parseTransactionJson, parseTransactionNdjson } from "@/lib/json-parser";
+import { readFixture, streamOf } from "./fixtures";
+
+describe("parseTransactionJson", () => {
+  it("keeps valid records and reports invalid ones by record number", async () => {
+    const result = await parseTransactionJson(streamOf(readFixture("transactions.json"), 16));
+
+    assert.deepEqual(result.transactions, [
+      { transaction_id: "T1", sender_id: "ACC-A", receiver_id: "ACC-B", amount: 1500.5, timestamp: "2024-03-01T09:00:00Z" },
+      // Integer IDs, a decimal string amount and an epoch timestamp
+      { transaction_id: "2", sender_id: "1001", receiver_id: "ACC-C", amount: 2000, timestamp: "1709283600", currency: "EUR" },
+      {
+        transaction_id: "T3",
+        sender_id: "ACC-C",
+        receiver_id: "ACC-A",
+        amount: 300,
+        timestamp: "2024-03-02T11:00:00Z",
+        metadata: { channel: "wire" },
+      },
+    ]);
+    assert.deepEqual(result.rejections, [
+      { line: 4, reason: "receiver_id: Required; amount: Expected a number or numeric string" },
+      {
+        line: 5,
+        reason:
+          "transaction_id: Expected a string or integer; sender_id: Must not be empty; currency: Expected an ISO 4217 code",
+      },
+      { line: 6, reason: "Expected object, received string" },
+    ]);
+    assert.equal(result.rejectedCount, 3);
+  });
+
+  it("rejects a body that is not a JSON array", async () => {
+    await assert.rejects(parseTransactionJson(streamOf('[{"transaction_id": "T1",')), /Body is not valid JSON/);
+    await assert.rejects(parseTransactionJson(streamOf("")), /Body is not valid JSON/);
+    await assert.rejects(
+      parseTransactionJson(streamOf('{"transactions": []}')),
+      /JSON body must be an array of transactions/
+    );
+  });
+
+  it("counts every rejection but reports at most the cap", async () => {
+    const records = Array.from({ length: MAX_REPORTED_REJECTIONS + 5 }, () => ({}));
+    const result = await parseTransactionJson(streamOf(JSON.stringify(records)));
+    assert.equal(result.rejectedCount, MAX_REPORTED_REJECTIONS + 5);
+    assert.equal(result.rejections.length, MAX_REPORTED_REJECTIONS);
+  });
+});
+
+describe("parseTransactionNdjson", () => {
+  const ndjson = readFixture("transactions.ndjson");
+
+  // Chunks of one byte split the multi-byte "Ü" as well as every line
+  for (const chunkSize of [Infinity, 5, 1]) {
+    it(`skips blank lines and reports malformed ones by line (chunks of ${chunkSize} bytes)`, async () => {
+      const result = await parseTransactionNdjson(streamOf(ndjson, chunkSize));
+
+      assert.deepEqual(result.transactions, [
+        { transaction_id: "N1", sender_id: "ACC-A", receiver_id: "ACC-B", amount: 100, timestamp: "2024-03-01T09:00:00Z" },
+        {
+          transaction_id: "N2",
+          sender_id: "ACC-B",
+          receiver_id: "ACC-Ü",
+          amount: 42.1,
+          timestamp: "2024-03-01T10:00:00Z",
+          currency: "CHF",
+        },
+        // Last line, without a trailing newline
+        { transaction_id: "N5", sender_id: "ACC-A", receiver_id: "ACC-C", amount: 5, timestamp: "2024-03-01T12:00:00Z" },
+      ]);
+      assert.deepEqual(result.rejections, [
+        { line: 4, reason: "Line is not valid JSON" },
+        { line: 5, reason: "amount: Expected a number or numeric string; metadata.ref: Expected string, received number" },
+        { line: 6, reason: "Expected object, received array" },
+      ]);
+    });
+  }
+
+  it("accepts CRLF line endings", async () => {
+    const lines = [
+      '{"transaction_id":"A","sender_id":"X","receiver_id":"Y","amount":1,"timestamp":"2024-01-01"}',
+      '{"transaction_id":"B","sender_id":"Y","receiver_id":"X","amount":2,"timestamp":"2024-01-02"}',
+    ];
+    const result = await parseTransactionNdjson(streamOf(lines.join("\r\n") + "\r\n"));
+    assert.deepEqual(result.transactions.map(tx => tx.transaction_id), ["A", "B"]);
+    assert.equal(result.rejectedCount, 0);
+  });
+});
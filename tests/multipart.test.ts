@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { multipartBoundary, readMultipart } from "@/lib/multipart";
+import { streamOf } from "./fixtures";
+
+async function encodeForm(form: FormData): Promise<{ bytes: Uint8Array; boundary: string }> {
+  const response = new Response(form);
+  const boundary = multipartBoundary(response.headers.get("content-type")!)!;
+  return { bytes: new Uint8Array(await response.arrayBuffer()), boundary };
+}
+
+async function readParts(source: ReadableStream<Uint8Array>, boundary: string) {
+  const parts: { name: string; filename?: string; contentType?: string; text: string }[] = [];
+  for await (const part of readMultipart(source, boundary)) {
+    const { name, filename, contentType } = part;
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of part.body) chunks.push(chunk.slice());
+    parts.push({ name, filename, contentType, text: await new Blob(chunks).text() });
+  }
+  return parts;
+}
+
+describe("multipartBoundary", () => {
+  it("reads a bare or quoted boundary parameter", () => {
+    assert.equal(multipartBoundary("multipart/form-data; boundary=abc123"), "abc123");
+    assert.equal(multipartBoundary('multipart/form-data; charset=utf-8; boundary="a b:c"'), "a b:c");
+    assert.equal(multipartBoundary("multipart/form-data"), null);
+  });
+});
+
+describe("readMultipart", () => {
+  it("yields fields and files in order, with boundaries straddling chunks", async () => {
+    const csv = "transaction_id,sender_id\r\n" + "T1,A\r\n".repeat(500);
+    const form = new FormData();
+    form.append("format", "csv");
+    form.append("file", new File([csv], "day.csv", { type: "text/csv" }));
+    form.append("file", new File(["déjà vu"], "notes.txt"));
+    form.append("empty", "");
+    const { bytes, boundary } = await encodeForm(form);
+
+    for (const chunkSize of [1, 7, 64, Infinity]) {
+      const parts = await readParts(streamOf(bytes, chunkSize), boundary);
+      assert.deepEqual(
+        parts.map(p => [p.name, p.filename, p.text.length]),
+        [
+          ["format", undefined, 3],
+          ["file", "day.csv", csv.length],
+          ["file", "notes.txt", 7],
+          ["empty", undefined, 0],
+        ]
+      );
+      assert.equal(parts[1].text, csv);
+      assert.equal(parts[1].contentType, "text/csv");
+      assert.equal(parts[2].text, "déjà vu");
+    }
+  });
+
+  it("skips the parts a reader leaves unread", async () => {
+    const form = new FormData();
+    form.append("file", new File(["x".repeat(10_000)], "big.csv"));
+    form.append("format", "json");
+    const { bytes, boundary } = await encodeForm(form);
+
+    const names: string[] = [];
+    let format = "";
+    for await (const part of readMultipart(streamOf(bytes, 100), boundary)) {
+      names.push(part.name);
+      if (part.name === "format") for await (const chunk of part.body) format += new TextDecoder().decode(chunk);
+    }
+    assert.deepEqual(names, ["file", "format"]);
+    assert.equal(format, "json");
+  });
+
+  it("rejects a body that ends before its closing boundary", async () => {
+    const form = new FormData();
+    form.append("file", new File(["T1,A,B,100\n"], "cut.csv"));
+    const { bytes, boundary } = await encodeForm(form);
+
+    const truncated = bytes.subarray(0, bytes.byteLength - 10);
+    await assert.rejects(readParts(streamOf(truncated, 16), boundary), /Malformed multipart body/);
+    await assert.rejects(readParts(streamOf("no boundary here"), boundary), /Malformed multipart body/);
+  });
+});
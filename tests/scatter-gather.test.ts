@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeTransactions, type FraudRing, type TransactionInput } from "@/lib/graph-engine";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+// The source pays 10 intermediaries an hour apart; each forwards the
+// payment to the collector 12 hours after receiving it
+function scatterGather(source: string, collector: string): TransactionInput[] {
+  return Array.from({ length: 10 }, (_, i) => [
+    {
+      transaction_id: `S${i}`,
+      sender_id: source,
+      receiver_id: `MID_${i}`,
+      amount: 4000,
+      timestamp: new Date(START + i * HOUR_MS).toISOString(),
+    },
+    {
+      transaction_id: `G${i}`,
+      sender_id: `MID_${i}`,
+      receiver_id: collector,
+      amount: 3800,
+      timestamp: new Date(START + (i + 12) * HOUR_MS).toISOString(),
+    },
+  ]).flat();
+}
+
+function scatterGatherRings(transactions: TransactionInput[]): FraudRing[] {
+  return analyzeTransactions(transactions).fraud_rings.filter(ring => ring.pattern_type === "scatter_gather");
+}
+
+const intermediaries = Array.from({ length: 10 }, (_, i) => `MID_${i}`);
+
+describe("scatter-gather", () => {
+  it("links a fan-out source to a separate fan-in collector", () => {
+    const [ring, ...others] = scatterGatherRings(scatterGather("SOURCE", "COLLECTOR"));
+    assert.equal(others.length, 0);
+    assert.deepEqual(ring.member_accounts, ["SOURCE", ...intermediaries, "COLLECTOR"]);
+    assert.equal(ring.member_roles.SOURCE, "source");
+    assert.equal(ring.member_roles.COLLECTOR, "collector");
+    for (const id of intermediaries) assert.equal(ring.member_roles[id], "intermediary");
+  });
+
+  it("reports a round trip back to the source", () => {
+    const [ring, ...others] = scatterGatherRings(scatterGather("SOURCE", "SOURCE"));
+    assert.equal(others.length, 0);
+    assert.deepEqual(ring.member_accounts, ["SOURCE", ...intermediaries]);
+    assert.equal(ring.member_roles.SOURCE, "source");
+  });
+
+  it("needs the gather to follow the scatter", () => {
+    const reversed = scatterGather("SOURCE", "COLLECTOR").map(tx =>
+      tx.transaction_id.startsWith("G") ? { ...tx, timestamp: "2023-12-31T00:00:00.000Z" } : tx
+    );
+    assert.deepEqual(scatterGatherRings(reversed), []);
+  });
+});
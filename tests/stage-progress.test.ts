@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { analyzeTransactions, type AnalysisStageEvent } from "@/lib/graph-engine";
+import { generateSyntheticDataset } from "@/lib/synthetic";
+
+const DETECTORS = ["cycle", "smurfing", "scatter_gather", "structuring", "shell_network", "rapid_pass_through"];
+
+describe("detector stage progress", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("reports progress from every built-in detector", () => {
+    const { transactions } = generateSyntheticDataset();
+    let now = 0;
+    mock.method(performance, "now", () => (now += 150));
+
+    const events: AnalysisStageEvent[] = [];
+    analyzeTransactions(transactions, {}, { onStage: event => events.push(event) });
+
+    for (const detector of DETECTORS) {
+      const stageEvents = events.filter(event => event.stage === detector);
+      const progress = stageEvents.filter(event => event.status === "progress").map(event => event.count);
+      assert.ok(progress.length > 0, `${detector} reported no progress`);
+      assert.deepEqual(progress, [...progress].sort((a, b) => a - b), `${detector} counted backwards`);
+
+      const completed = stageEvents.find(event => event.status === "completed")!;
+      assert.ok(completed.count >= progress[progress.length - 1]);
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  STRUCTURING_JURISDICTIONS,
+  STRUCTURING_PRESETS,
+  analyzeTransactions,
+  resolveAnalysisConfig,
+  type StructuringJurisdiction,
+  type TransactionInput,
+} from "@/lib/graph-engine";
+import { validateAnalysisConfig } from "@/lib/analysis-config";
+
+// Three deposits from different senders within a day, into one account
+// per currency and amount
+const DEPOSITS: { account: string; currency: string; amount: number }[] = [
+  { account: "USD_9500", currency: "USD", amount: 9500 },
+  { account: "EUR_9500", currency: "EUR", amount: 9500 },
+  { account: "EUR_14000", currency: "EUR", amount: 14000 },
+  { account: "GBP_9500", currency: "GBP", amount: 9500 },
+];
+
+const transactions: TransactionInput[] = DEPOSITS.flatMap(({ account, currency, amount }) =>
+  [0, 1, 2].map(i => ({
+    transaction_id: `${account}_${i}`,
+    sender_id: `${account}_SENDER_${i}`,
+    receiver_id: account,
+    amount,
+    timestamp: `2024-01-01T0${i}:00:00Z`,
+    currency,
+  }))
+);
+
+function structuredAccounts(jurisdiction: StructuringJurisdiction | null): string[] {
+  const result = analyzeTransactions(transactions, { structuring: { jurisdiction } });
+  return result.fraud_rings
+    .filter(ring => ring.pattern_type === "structuring")
+    .flatMap(ring => ring.member_accounts.filter(id => ring.member_roles[id] === "hub"))
+    .sort();
+}
+
+describe("structuring jurisdictions", () => {
+  it("flags only the amounts under each preset's threshold, in its currency", () => {
+    const expected: Record<StructuringJurisdiction, string[]> = {
+      us_ctr: ["USD_9500"],
+      eu_aml: ["EUR_14000"],
+      eu_cash: ["EUR_9500"],
+      uk_mlr: ["EUR_9500"],
+    };
+    for (const jurisdiction of STRUCTURING_JURISDICTIONS) {
+      assert.deepEqual(structuredAccounts(jurisdiction), expected[jurisdiction], jurisdiction);
+    }
+  });
+
+  it("checks every currency against the threshold when no jurisdiction is set", () => {
+    assert.deepEqual(structuredAccounts(null), ["EUR_9500", "GBP_9500", "USD_9500"]);
+  });
+
+  it("counts transactions that state no currency under any preset", () => {
+    const untagged = transactions.map(({ currency: _, ...tx }) => tx);
+    const result = analyzeTransactions(untagged, { structuring: { jurisdiction: "eu_aml" } });
+    const hubs = result.fraud_rings
+      .filter(ring => ring.pattern_type === "structuring")
+      .flatMap(ring => ring.member_accounts.filter(id => ring.member_roles[id] === "hub"));
+    assert.deepEqual(hubs, ["EUR_14000"]);
+  });
+
+  it("takes threshold and band from the preset unless given", () => {
+    const preset = resolveAnalysisConfig({ structuring: { jurisdiction: "eu_aml" } }).structuring;
+    assert.equal(preset.threshold, STRUCTURING_PRESETS.eu_aml.threshold);
+    assert.equal(preset.bandPct, STRUCTURING_PRESETS.eu_aml.bandPct);
+
+    const overridden = resolveAnalysisConfig({ structuring: { jurisdiction: "eu_aml", threshold: 12000 } }).structuring;
+    assert.equal(overridden.threshold, 12000);
+    assert.equal(overridden.bandPct, STRUCTURING_PRESETS.eu_aml.bandPct);
+  });
+
+  it("rejects an unknown jurisdiction in the config", () => {
+    const result = validateAnalysisConfig({ structuring: { jurisdiction: "fr_tracfin" } });
+    assert.equal(result.success, false);
+    assert.ok(!result.success && result.errors[0].startsWith("structuring.jurisdiction"));
+    assert.equal(validateAnalysisConfig({ structuring: { jurisdiction: "uk_mlr" } }).success, true);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseTransactionSwift } from "@/lib/swift-parser";
+import { readFixture, streamOf } from "./fixtures";
+
+describe("parseTransactionSwift", () => {
+  it("maps MT103 parties, value date and institutions", async () => {
+    const result = await parseTransactionSwift(streamOf(readFixture("mt103.fin"), 32));
+
+    assert.deepEqual(result.transactions, [
+      {
+        transaction_id: "REF-1001",
+        sender_id: "DE89370400440532013000",
+        receiver_id: "ES9121000418450200051332",
+        amount: 9500,
+        timestamp: "2024-03-05",
+        currency: "EUR",
+        metadata: { intermediary_institution: "INTMDEFF", account_with_institution: "BANCO EJEMPLO, MADRID" },
+      },
+      // 50F party identifier, 59A BIC, and a 19xx year
+      {
+        transaction_id: "REF-1002",
+        sender_id: "IBAN/GB29NWBK60161331926819",
+        receiver_id: "BANKUS33",
+        amount: 120.5,
+        timestamp: "1999-12-31",
+        currency: "USD",
+      },
+    ]);
+    assert.deepEqual(result.rejections, [
+      {
+        line: 22,
+        reason: "MT103 missing or invalid field 32A (value date, currency, amount), 50a (ordering customer account)",
+      },
+      { line: 28, reason: "Unsupported message type MT202" },
+    ]);
+    assert.equal(result.rejectedCount, 2);
+  });
+
+  it("maps MT940 statement lines to the counterparty named in field 86", async () => {
+    const result = await parseTransactionSwift(streamOf(readFixture("mt940.sta"), 32));
+
+    assert.deepEqual(result.transactions, [
+      {
+        transaction_id: "INV-77",
+        sender_id: "DE89370400440532013000",
+        receiver_id: "GB29NWBK60161331926819",
+        amount: 1500,
+        timestamp: "2024-03-05",
+        currency: "EUR",
+      },
+      // NONREF falls back to the bank reference; the statement's own IBAN is skipped
+      {
+        transaction_id: "BANKREF-2",
+        sender_id: "FR1420041010050500013M02606",
+        receiver_id: "DE89370400440532013000",
+        amount: 250,
+        timestamp: "2024-03-06",
+        currency: "EUR",
+      },
+    ]);
+    assert.deepEqual(result.rejections, [
+      { line: 10, reason: "No counterparty account found in field 86" },
+      { line: 12, reason: "Reversal statement lines are not mapped" },
+      { line: 14, reason: "Invalid statement line (61)" },
+      { line: 17, reason: "MT940 missing field 25 (account identification)" },
+    ]);
+  });
+
+  it("names statement lines without any reference after the statement", async () => {
+    const statement = [
+      ":20:STMT-9",
+      ":25:NL91ABNA0417164300",
+      ":61:240101C5,00NTRFNONREF",
+      ":86:FROM DE89370400440532013000",
+      "-",
+    ].join("\n");
+    const result = await parseTransactionSwift(streamOf(statement));
+    assert.equal(result.transactions[0].transaction_id, "STMT-9/3");
+    assert.equal(result.transactions[0].sender_id, "DE89370400440532013000");
+    assert.equal(result.transactions[0].currency, undefined);
+  });
+
+  it("rejects input without FIN messages", async () => {
+    await assert.rejects(parseTransactionSwift(streamOf("")), /No SWIFT FIN messages found/);
+    await assert.rejects(parseTransactionSwift(streamOf("transaction_id,sender_id\nT1,A\n")), /No SWIFT FIN messages/);
+  });
+});
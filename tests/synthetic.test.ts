@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeTransactions } from "@/lib/graph-engine";
+import { generateSyntheticDataset, type Typology } from "@/lib/synthetic";
+
+// Ring pattern each injected typology is detected as
+const PATTERN_OF: Record<Typology, string> = {
+  cycle: "cycle",
+  fan_in: "fan_in",
+  fan_out: "fan_out",
+  shell_chain: "shell_network",
+  scatter_gather: "scatter_gather",
+};
+
+const sameMembers = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+describe("generateSyntheticDataset", () => {
+  const dataset = generateSyntheticDataset();
+  const labelled = new Set(dataset.labels.flatMap(label => label.account_ids));
+
+  it("is reproducible from its seed", () => {
+    const transactions = generateSyntheticDataset().transactions;
+    assert.deepEqual(generateSyntheticDataset().transactions, transactions);
+    assert.notDeepEqual(generateSyntheticDataset({ seed: 7 }).transactions, transactions);
+  });
+
+  it("injects every typology so that it is detected over exactly the labelled accounts", () => {
+    const result = analyzeTransactions(dataset.transactions);
+
+    assert.deepEqual(
+      new Set(dataset.labels.map(label => label.typology)),
+      new Set(Object.keys(PATTERN_OF))
+    );
+    const missed = dataset.labels
+      .filter(
+        label =>
+          !result.fraud_rings.some(
+            ring => ring.pattern_type === PATTERN_OF[label.typology] && sameMembers(ring.member_accounts, label.account_ids)
+          )
+      )
+      .map(label => label.instance_id);
+    assert.deepEqual(missed, []);
+  });
+
+  it("yields no rings or suspicious accounts outside the labels with the default seed", () => {
+    const result = analyzeTransactions(dataset.transactions);
+
+    const unlabelledRings = result.fraud_rings
+      .filter(ring => ring.member_accounts.some(account => !labelled.has(account)))
+      .map(ring => `${ring.ring_id} (${ring.pattern_type})`);
+    assert.deepEqual(unlabelledRings, []);
+
+    const unlabelledAccounts = result.suspicious_accounts.filter(account => !labelled.has(account.account_id));
+    assert.deepEqual(unlabelledAccounts, []);
+  });
+});
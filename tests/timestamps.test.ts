@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  detectTimestampFormat,
+  isValidTimeZone,
+  normalizeTimestamps,
+  parseTimestamp,
+} from "@/lib/timestamps";
+
+const utc = Date.parse;
+
+describe("parseTimestamp", () => {
+  it("reads ISO 8601 with and without an offset", () => {
+    assert.equal(parseTimestamp("2024-03-04T14:00:00Z", "iso8601", "UTC"), utc("2024-03-04T14:00:00Z"));
+    assert.equal(parseTimestamp("2024-03-04 14:00", "iso8601", "UTC"), utc("2024-03-04T14:00:00Z"));
+    assert.equal(parseTimestamp("2024-03-04", "iso8601", "UTC"), utc("2024-03-04T00:00:00Z"));
+    assert.equal(parseTimestamp("2024-03-04T14:00:00.25+0530", "iso8601", "UTC"), utc("2024-03-04T08:30:00.250Z"));
+    assert.equal(parseTimestamp("2024-03-04T14:00:00-05:00", "iso8601", "UTC"), utc("2024-03-04T19:00:00Z"));
+    // An explicit offset wins over the source time zone
+    assert.equal(parseTimestamp("2024-03-04T14:00:00Z", "iso8601", "Europe/Berlin"), utc("2024-03-04T14:00:00Z"));
+  });
+
+  it("reads wall-clock times in the source time zone across DST changes", () => {
+    assert.equal(parseTimestamp("2024-01-15T12:00:00", "iso8601", "Europe/Berlin"), utc("2024-01-15T11:00:00Z"));
+    assert.equal(parseTimestamp("2024-07-15T12:00:00", "iso8601", "Europe/Berlin"), utc("2024-07-15T10:00:00Z"));
+    assert.equal(parseTimestamp("07/15/2024 12:00", "us", "America/New_York"), utc("2024-07-15T16:00:00Z"));
+    assert.equal(parseTimestamp("15/01/2024 12:00", "eu", "America/New_York"), utc("2024-01-15T17:00:00Z"));
+  });
+
+  it("orders day and month by format", () => {
+    assert.equal(parseTimestamp("03/04/2024 14:00", "us", "UTC"), utc("2024-03-04T14:00:00Z"));
+    assert.equal(parseTimestamp("03/04/2024 14:00", "eu", "UTC"), utc("2024-04-03T14:00:00Z"));
+    assert.equal(parseTimestamp("3.4.2024", "eu", "UTC"), utc("2024-04-03T00:00:00Z"));
+    assert.equal(parseTimestamp("03/04/2024 2:30 PM", "us", "UTC"), utc("2024-03-04T14:30:00Z"));
+    assert.equal(parseTimestamp("03/04/2024 12:05 AM", "us", "UTC"), utc("2024-03-04T00:05:00Z"));
+  });
+
+  it("reads epoch and Excel serial numbers", () => {
+    assert.equal(parseTimestamp("1709560800", "epoch_seconds", "UTC"), 1709560800000);
+    assert.equal(parseTimestamp("1709560800.5", "epoch_seconds", "UTC"), 1709560800500);
+    assert.equal(parseTimestamp("1709560800000", "epoch_millis", "UTC"), 1709560800000);
+    assert.equal(parseTimestamp("45355.5", "excel_serial", "UTC"), utc("2024-03-04T12:00:00Z"));
+    assert.equal(parseTimestamp("45355.5", "excel_serial", "Europe/Berlin"), utc("2024-03-04T11:00:00Z"));
+  });
+
+  it("returns NaN for values that do not match the format or are out of range", () => {
+    for (const [value, format] of [
+      ["2024-02-30", "iso8601"],
+      ["2024-13-01", "iso8601"],
+      ["2024-03-04T24:00", "iso8601"],
+      ["13/04/2024", "us"],
+      ["04/13/2024", "eu"],
+      ["03/04/2024 13:00 PM", "us"],
+      ["2024-03-04", "us"],
+      ["yesterday", "iso8601"],
+      ["1e9", "epoch_seconds"],
+      ["", "epoch_millis"],
+    ] as const) {
+      assert.ok(Number.isNaN(parseTimestamp(value, format, "UTC")), `${value} as ${format}`);
+    }
+  });
+});
+
+describe("detectTimestampFormat", () => {
+  it("tells numbers apart by magnitude", () => {
+    assert.equal(detectTimestampFormat(["1709560800", "1709564400"]), "epoch_seconds");
+    assert.equal(detectTimestampFormat(["1709560800000"]), "epoch_millis");
+    assert.equal(detectTimestampFormat(["45355.5", "45356"]), "excel_serial");
+  });
+
+  it("settles day/month order from any component above 12", () => {
+    assert.equal(detectTimestampFormat(["03/04/2024", "25/04/2024"]), "eu");
+    assert.equal(detectTimestampFormat(["03/04/2024", "04/25/2024"]), "us");
+    assert.equal(detectTimestampFormat(["03/04/2024", "04/05/2024"]), "us");
+  });
+
+  it("follows the majority and defaults to ISO 8601", () => {
+    assert.equal(detectTimestampFormat(["2024-03-04", "2024-03-05", "03/06/2024"]), "iso8601");
+    assert.equal(detectTimestampFormat(["garbage", ""]), "iso8601");
+    assert.equal(detectTimestampFormat([]), "iso8601");
+  });
+});
+
+describe("normalizeTimestamps", () => {
+  const tx = (timestamp: string) => ({ transaction_id: timestamp, sender_id: "A", receiver_id: "B", amount: 1, timestamp });
+
+  it("detects the format and leaves unparseable timestamps as NaN", () => {
+    const { format, transactions } = normalizeTimestamps([tx("25/12/2024 10:00"), tx("01/02/2024"), tx("never")]);
+    assert.equal(format, "eu");
+    assert.deepEqual(
+      transactions.map(t => t.epoch_ms),
+      [utc("2024-12-25T10:00:00Z"), utc("2024-02-01T00:00:00Z"), NaN]
+    );
+  });
+
+  it("uses an explicit format and time zone", () => {
+    const { format, transactions } = normalizeTimestamps([tx("01/02/2024 09:00")], {
+      format: "us",
+      timeZone: "Asia/Tokyo",
+    });
+    assert.equal(format, "us");
+    assert.equal(transactions[0].epoch_ms, utc("2024-01-02T00:00:00Z"));
+  });
+
+  it("detects the format from the first values and normalises the objects in place", () => {
+    const input = [
+      ...Array.from({ length: 1000 }, (_, i) => tx(`2024-01-01T00:00:${String(i % 60).padStart(2, "0")}Z`)),
+      ...Array.from({ length: 2000 }, () => tx("1704067200")),
+    ];
+    const { format, transactions } = normalizeTimestamps(input);
+    assert.equal(format, "iso8601");
+    assert.equal(transactions[2999], input[2999]);
+    assert.ok(Number.isNaN(transactions[2999].epoch_ms));
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones only", () => {
+    assert.ok(isValidTimeZone("Europe/Berlin"));
+    assert.ok(!isValidTimeZone("Mars/Olympus"));
+  });
+});
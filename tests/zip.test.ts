@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { readZip } from "@/lib/zip";
+import { readFixture } from "./fixtures";
+
+// First central directory entry of the fixture is stored.csv
+const CENTRAL_FILE_HEADER = 0x02014b50;
+
+function firstCentralEntry(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = view.getUint32(bytes.byteLength - 22 + 16, true);
+  assert.equal(view.getUint32(offset, true), CENTRAL_FILE_HEADER);
+  return offset;
+}
+
+// Copy of the fixture with one field of stored.csv's central entry changed
+function patched(field: number, value: number, width: 2 | 4 = 2): Uint8Array {
+  const bytes = readFixture("upload.zip");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = firstCentralEntry(bytes) + field;
+  if (width === 2) view.setUint16(offset, value, true);
+  else view.setUint32(offset, value, true);
+  return bytes;
+}
+
+const text = async (stream: ReadableStream<Uint8Array>) => new Response(stream).text();
+
+describe("readZip", () => {
+  it("lists files, skipping directories, and streams stored and deflated entries", async () => {
+    const entries = readZip(readFixture("upload.zip"));
+    assert.deepEqual(
+      entries.map(entry => [entry.name, entry.size]),
+      [
+        ["stored.csv", 117],
+        ["exports/deflated.ndjson", 105],
+        ["exports/more.csv.gz", 97],
+        ["README.md", 15],
+        ["__MACOSX/._stored.csv", 4],
+        [".DS_Store", 8],
+      ]
+    );
+
+    assert.match(await text(entries[0].stream()), /^transaction_id,[^]*\nZ2,B,C,90,2024-03-01T10:00:00Z\n$/);
+    assert.match(await text(entries[1].stream()), /^\{"transaction_id":"Z3".*\}\n$/);
+    assert.equal(await text(entries[3].stream()), "Monthly export\n");
+    // Streams can be read more than once
+    assert.equal(await text(entries[3].stream()), "Monthly export\n");
+  });
+
+  it("rejects encrypted entries and unsupported compression methods", () => {
+    assert.throws(() => readZip(patched(8, 0x1)), /Encrypted ZIP entries are not supported: stored.csv/);
+    assert.throws(() => readZip(patched(10, 12)), /Unsupported ZIP compression method 12: stored.csv/);
+  });
+
+  it("rejects damaged archives", () => {
+    const archive = readFixture("upload.zip");
+    assert.throws(() => readZip(new Uint8Array(10)), /Not a ZIP archive: file too short/);
+    assert.throws(() => readZip(new TextEncoder().encode("a,b,c\n".repeat(10))), /end of central directory not found/);
+    assert.throws(() => readZip(patched(0, 0)), /bad central directory entry/);
+    assert.throws(() => readZip(archive.slice(0, -30)), /Not a ZIP archive/);
+
+    // Local headers are only read when an entry is streamed
+    const badLocalHeader = readFixture("upload.zip");
+    badLocalHeader[0] = 0;
+    assert.throws(() => readZip(badLocalHeader)[0].stream(), /bad local file header/);
+    assert.throws(() => readZip(patched(20, 0xffff, 4))[0].stream(), /entry extends past the end of the file/);
+  });
+});